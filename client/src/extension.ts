@@ -8,7 +8,8 @@
 import * as path from 'path';
 import {
     workspace as Workspace, window as Window, commands as Commands, languages as Languages, Disposable, ExtensionContext, Uri, StatusBarAlignment, TextDocument,
-    CodeActionContext, Diagnostic, ProviderResult, Command, QuickPickItem, WorkspaceFolder as VWorkspaceFolder, CodeAction
+    CodeActionContext, Diagnostic, ProviderResult, Command, QuickPickItem, WorkspaceFolder as VWorkspaceFolder, CodeAction,
+    ProgressLocation, EventEmitter, TextDocumentContentProvider, WorkspaceEdit, CancellationToken
 } from 'vscode';
 import {
     LanguageClient, LanguageClientOptions, RequestType, TransportKind,
@@ -16,7 +17,7 @@ import {
     ErrorAction, CloseAction, State as ClientState,
     RevealOutputChannelOn,
     ServerOptions, DocumentFilter, DidCloseTextDocumentNotification, DidOpenTextDocumentNotification,
-    WorkspaceFolder
+    WorkspaceFolder, VersionedTextDocumentIdentifier, TextEdit
 } from 'vscode-languageclient';
 
 namespace Is {
@@ -63,9 +64,11 @@ interface TextDocumentSettings {
     autoFix: boolean;
     autoFixOnSave: boolean;
     stylintrcPath: string | undefined;
+    rules: { [name: string]: any };
     run: RunValues;
+    debounceMs: number;
+    exclude: string[];
     nodePath: string | undefined;
-    stylintJsonReporterPath: string;
     workspaceFolder: WorkspaceFolder | undefined;
     workingDirectory: DirectoryItem | undefined;
     library: undefined;
@@ -114,6 +117,79 @@ namespace NoStylintLibraryRequest {
     export const type = new RequestType<NoStylintLibraryParams, NoStylintLibraryResult, void, void>('stylint/noLibrary');
 }
 
+interface LintFilesParams {
+    uris: string[];
+}
+
+interface LintFilesResult {
+}
+
+namespace LintFilesRequest {
+    export const type = new RequestType<LintFilesParams, LintFilesResult, void, void>('stylint/lintFiles');
+}
+
+namespace ClearWorkspaceResultsNotification {
+    export const type = new NotificationType<void, void>('stylint/clearWorkspaceResults');
+}
+
+interface ComputeFixesParams {
+    textDocument: VersionedTextDocumentIdentifier;
+    rules?: string[];
+}
+
+interface ComputeFixesResult {
+    edits: TextEdit[];
+    /**
+     * The number of fixed problems by rule.
+     */
+    rules: { [rule: string]: number };
+}
+
+namespace ComputeFixesRequest {
+    export const type = new RequestType<ComputeFixesParams, ComputeFixesResult | null, void, void>('stylint/computeFixes');
+}
+
+interface FixFilesParams {
+    uris: string[];
+    rules?: string[];
+}
+
+interface FileFixes extends ComputeFixesResult {
+    /**
+     * The version is `null` if the file was fixed from its content on disk.
+     */
+    textDocument: VersionedTextDocumentIdentifier;
+}
+
+interface FixFilesResult {
+    files: FileFixes[];
+}
+
+namespace FixFilesRequest {
+    export const type = new RequestType<FixFilesParams, FixFilesResult, void, void>('stylint/fixFiles');
+}
+
+interface ConfigValue {
+    value: any;
+    source: string;
+}
+
+interface EffectiveConfigParams {
+    textDocument: TextDocumentIdentifier;
+}
+
+interface EffectiveConfigResult {
+    library: string;
+    version: string | undefined;
+    workingDirectory: ConfigValue;
+    configuration: ConfigValue;
+    rules: { [name: string]: ConfigValue };
+}
+
+namespace EffectiveConfigRequest {
+    export const type = new RequestType<EffectiveConfigParams, EffectiveConfigResult | null, void, void>('stylint/effectiveConfig');
+}
+
 const exitCalled = new NotificationType<[number, string], void>('stylint/exitCalled');
 
 
@@ -121,6 +197,10 @@ interface WorkspaceFolderItem extends QuickPickItem {
     folder: VWorkspaceFolder;
 }
 
+interface RuleItem extends QuickPickItem {
+    rule: string;
+}
+
 function pickFolder(folders: VWorkspaceFolder[], placeHolder: string): Thenable<VWorkspaceFolder> {
     if (folders.length === 1) {
         return Promise.resolve(folders[0]);
@@ -184,6 +264,12 @@ function disable() {
 
 let dummyCommands: Disposable[];
 
+const lintWorkspaceBatchSize = 20;
+
+const previewScheme = 'stylint-preview';
+
+const effectiveConfigScheme = 'stylint-config';
+
 let defaultLanguages = ['stylus'];
 function shouldBeValidated(textDocument: TextDocument): boolean {
     let config = Workspace.getConfiguration('stylint', textDocument.uri);
@@ -201,6 +287,13 @@ function shouldBeValidated(textDocument: TextDocument): boolean {
     return false;
 }
 
+/**
+ * Guesses the language of a file which isn't opened in an editor.
+ */
+function getLanguageId(uri: Uri): string | undefined {
+    return uri.scheme === 'file' && path.extname(uri.fsPath) === '.styl' ? 'stylus' : undefined;
+}
+
 export function activate(context: ExtensionContext) {
     let activated: boolean;
     let openListener: Disposable;
@@ -234,8 +327,23 @@ export function activate(context: ExtensionContext) {
     configurationListener = Workspace.onDidChangeConfiguration(configurationChanged);
 
     let notValidating = () => Window.showInformationMessage('This command is not implemented yet.');
+    // Commands which need the server start it on demand.
+    let activateAndExecute = (command: string) => (...args: any[]) => {
+        if (!activated) {
+            openListener.dispose();
+            configurationListener.dispose();
+            activated = true;
+            realActivate(context);
+        }
+        return Commands.executeCommand(command, ...args);
+    };
     dummyCommands = [
-        Commands.registerCommand('stylint.showOutputChannel', notValidating)
+        Commands.registerCommand('stylint.showOutputChannel', notValidating),
+        Commands.registerCommand('stylint.lintWorkspace', activateAndExecute('stylint.lintWorkspace')),
+        Commands.registerCommand('stylint.clearWorkspaceResults', activateAndExecute('stylint.clearWorkspaceResults')),
+        Commands.registerCommand('stylint.previewFixes', activateAndExecute('stylint.previewFixes')),
+        Commands.registerCommand('stylint.fixWorkspace', activateAndExecute('stylint.fixWorkspace')),
+        Commands.registerCommand('stylint.showEffectiveConfig', activateAndExecute('stylint.showEffectiveConfig'))
     ];
 
     context.subscriptions.push(
@@ -247,8 +355,6 @@ export function activate(context: ExtensionContext) {
 }
 
 export function realActivate(context: ExtensionContext) {
-
-    let stylintJsonReporterPath = context.asAbsolutePath('node_modules/stylint-json-reporter/index.js')
     let statusBarItem = Window.createStatusBarItem(StatusBarAlignment.Right, 0);
     let stylintStatus: Status = Status.ok;
     let serverRunning: boolean = false;
@@ -319,7 +425,7 @@ export function realActivate(context: ExtensionContext) {
         }
     });
     let clientOptions: LanguageClientOptions = {
-        documentSelector: [{ scheme: 'file' }, { scheme: 'untitled' }],
+        documentSelector: [{ scheme: 'file' }, { scheme: 'untitled' }, { language: 'stylus' }],
         diagnosticCollectionName: 'stylint',
         revealOutputChannelOn: RevealOutputChannelOn.Never,
         synchronize: {
@@ -327,7 +433,10 @@ export function realActivate(context: ExtensionContext) {
             fileEvents: [
                 Workspace.createFileSystemWatcher('**/.stylintr{c.js,c.yaml,c.yml,c,c.json}'),
                 Workspace.createFileSystemWatcher('**/.stylintignore'),
-                Workspace.createFileSystemWatcher('**/package.json')
+                Workspace.createFileSystemWatcher('**/package.json'),
+                // Installing a package a .stylintrc extends changes the lock file only.
+                Workspace.createFileSystemWatcher('**/{package-lock.json,yarn.lock}'),
+                Workspace.createFileSystemWatcher('**/*.styl')
             ]
         },
         initializationFailedHandler: (error) => {
@@ -418,30 +527,34 @@ export function realActivate(context: ExtensionContext) {
                             packageManager: pm === 'yarn' ? 'yarn' : 'npm',
                             autoFix: false,
                             autoFixOnSave: false,
-                            stylintJsonReporterPath: stylintJsonReporterPath,
                             stylintrcPath: config.get('stylintrcPath'),
+                            rules: config.get('rules', {}),
                             run: config.get('run', 'onType'),
+                            debounceMs: config.get('debounceMs', 300),
+                            exclude: config.get('exclude', []),
                             nodePath: config.get('nodePath', undefined),
                             workingDirectory: undefined,
                             workspaceFolder: undefined,
                             library: undefined
                         }
+                        // Files linted by the 'Lint all Stylus files' command are not opened.
                         let document: TextDocument = syncedDocuments.get(item.scopeUri);
-                        if (!document) {
+                        let languageId = document ? document.languageId : getLanguageId(resource);
+                        if (!languageId) {
                             result.push(settings);
                             continue;
                         }
                         if (config.get('enabled', true)) {
                             let validateItems = config.get<(ValidateItem | string)[]>('validate', ['stylus']);
                             for (let item of validateItems) {
-                                if (Is.string(item) && item === document.languageId) {
+                                if (Is.string(item) && item === languageId) {
                                     settings.validate = true;
-                                    if (item === 'javascript') { //TODO change to stylus
+                                    if (item === 'stylus') {
                                         settings.autoFix = true;
                                     }
                                     break;
                                 }
-                                else if (ValidateItem.is(item) && item.language === document.languageId) {
+                                else if (ValidateItem.is(item) && item.language === languageId) {
                                     settings.validate = true;
                                     settings.autoFix = item.autoFix;
                                     break;
@@ -482,7 +595,7 @@ export function realActivate(context: ExtensionContext) {
                                     else {
                                         directory = undefined;
                                     }
-                                    let filePath = document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+                                    let filePath = resource.scheme === 'file' ? resource.fsPath : undefined;
                                     if (filePath && directory && filePath.startsWith(directory)) {
                                         if (workingDirectory) {
                                             if (workingDirectory.directory.length < directory.length) {
@@ -621,6 +734,289 @@ export function realActivate(context: ExtensionContext) {
         });
     });
 
+    function findStylusFiles(token: CancellationToken): Thenable<Uri[]> {
+        // An exclude pattern replaces the files.exclude setting, hence include its patterns. The Stylus
+        // files of installed packages, e.g. nib, are none of the workspace's business either.
+        let filesExclude = Workspace.getConfiguration('files').get<{ [pattern: string]: boolean }>('exclude', {});
+        let patterns = ['**/node_modules/**'].concat(Object.keys(filesExclude).filter(pattern => filesExclude[pattern] === true));
+        return Workspace.findFiles('**/*.styl', `{${patterns.join(',')}}`, undefined, token)
+            .then(files => files.filter(file => Workspace.getConfiguration('stylint', file).get('enable', true)));
+    }
+
+    function lintWorkspace(): Thenable<void> {
+        let folders = Workspace.workspaceFolders;
+        if (!folders) {
+            Window.showWarningMessage('Stylint can only lint the workspace if VS Code is opened on a workspace folder.');
+            return Promise.resolve(undefined);
+        }
+        return client.onReady().then(() => Window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Stylint',
+            cancellable: true
+        }, async (progress, token) => {
+            progress.report({ message: 'Searching Stylus files...' });
+            let files = await findStylusFiles(token);
+            for (let i = 0; i < files.length && !token.isCancellationRequested; i += lintWorkspaceBatchSize) {
+                let batch = files.slice(i, i + lintWorkspaceBatchSize);
+                progress.report({
+                    message: `Linting ${i + batch.length} of ${files.length} files...`,
+                    increment: batch.length / files.length * 100
+                });
+                await client.sendRequest(LintFilesRequest.type, { uris: batch.map(file => client.code2ProtocolConverter.asUri(file)) }, token);
+            }
+        }));
+    }
+
+    /**
+     * Computes the fixes of all Stylus files of the workspace.
+     *
+     * @return The fixes of the files with fixable problems or `undefined` if the user cancelled.
+     */
+    function computeWorkspaceFixes(rules: string[] | undefined): Thenable<FileFixes[] | undefined> {
+        return Window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Stylint',
+            cancellable: true
+        }, async (progress, token) => {
+            progress.report({ message: 'Searching Stylus files...' });
+            let files = await findStylusFiles(token);
+            let result: FileFixes[] = [];
+            for (let i = 0; i < files.length && !token.isCancellationRequested; i += lintWorkspaceBatchSize) {
+                let batch = files.slice(i, i + lintWorkspaceBatchSize);
+                progress.report({
+                    message: `Computing the fixes of ${i + batch.length} of ${files.length} files...`,
+                    increment: batch.length / files.length * 100
+                });
+                let params: FixFilesParams = { uris: batch.map(file => client.code2ProtocolConverter.asUri(file)), rules };
+                let fixes = await client.sendRequest(FixFilesRequest.type, params, token).then(undefined, (error) => {
+                    if (token.isCancellationRequested) {
+                        return { files: [] };
+                    }
+                    throw error;
+                });
+                result.push(...fixes.files);
+            }
+            return token.isCancellationRequested ? undefined : result;
+        });
+    }
+
+    /**
+     * Fixes the auto-fixable problems of all Stylus files of the workspace, including the ones which aren't open.
+     * The user confirms the fixes by rule first. All fixes are applied as one edit.
+     *
+     * @param rules Only fix the problems of these rules. If omitted all auto-fixable problems are fixed.
+     */
+    async function fixWorkspace(rules?: string[]): Promise<void> {
+        if (!Workspace.workspaceFolders) {
+            Window.showWarningMessage('Stylint can only fix the workspace if VS Code is opened on a workspace folder.');
+            return;
+        }
+        await client.onReady();
+        let files = await computeWorkspaceFixes(rules);
+        if (!files) {
+            return;
+        }
+        if (files.length === 0) {
+            Window.showInformationMessage('Stylint found no auto-fixable problems in the workspace.');
+            return;
+        }
+
+        let summary: { [rule: string]: { fixes: number, files: number } } = Object.create(null);
+        files.forEach(file => Object.keys(file.rules).forEach((rule) => {
+            summary[rule] = summary[rule] || { fixes: 0, files: 0 };
+            summary[rule].fixes += file.rules[rule];
+            summary[rule].files++;
+        }));
+        let total = Object.keys(summary).reduce((sum, rule) => sum + summary[rule].fixes, 0);
+        let items: RuleItem[] = Object.keys(summary).sort().map(rule => ({
+            label: rule,
+            description: `${summary[rule].fixes} fixes in ${summary[rule].files} files`,
+            rule,
+            picked: true
+        }));
+        let picked = await Window.showQuickPick(items, {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            placeHolder: `Fix ${total} problems in ${files.length} files. Apply the fixes of the selected rules or press Escape to cancel.`
+        });
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        if (picked.length < items.length) {
+            // The fixes of the other rules may overlap, hence compute the fixes of the selected rules anew.
+            files = await computeWorkspaceFixes(picked.map(item => item.rule));
+            if (!files) {
+                return;
+            }
+        }
+
+        let workspaceEdit = new WorkspaceEdit();
+        let skipped = 0;
+        for (let file of files) {
+            let uri = client.protocol2CodeConverter.asUri(file.textDocument.uri);
+            let document = Workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+            // Files which weren't open got fixed from their content on disk.
+            let outdated = file.textDocument.version === null
+                ? document !== undefined && document.isDirty
+                : document === undefined || document.version !== file.textDocument.version;
+            if (outdated) {
+                skipped++;
+                continue;
+            }
+            workspaceEdit.set(uri, client.protocol2CodeConverter.asTextEdits(file.edits));
+        }
+        if (!await Workspace.applyEdit(workspaceEdit)) {
+            Window.showErrorMessage('Failed to apply the Stylint fixes.');
+            return;
+        }
+        let message = `Stylint fixed the problems of ${files.length - skipped} files. Review and save the changed files.`;
+        if (skipped > 0) {
+            Window.showWarningMessage(`${message} ${skipped} files changed in the meantime and were skipped.`);
+        } else {
+            Window.showInformationMessage(message);
+        }
+    }
+
+    function renderEffectiveConfig(document: TextDocument, config: EffectiveConfigResult): string {
+        let lines = [
+            `// The effective Stylint configuration of ${document.isUntitled ? document.uri.toString() : document.uri.fsPath}`,
+            `// Library: ${config.library}${config.version ? ` (${config.version})` : ''}`,
+            `// Working directory: ${config.workingDirectory.value} (${config.workingDirectory.source})`,
+            `// Configuration: ${config.configuration.value || 'none'} (${config.configuration.source})`,
+            '{'
+        ];
+        let names = Object.keys(config.rules).sort();
+        names.forEach((name, index) => {
+            let rule = config.rules[name];
+            let value = JSON.stringify(rule.value, null, 4).replace(/\n/g, '\n    ');
+            lines.push(`    ${JSON.stringify(name)}: ${value}${index < names.length - 1 ? ',' : ''} // ${rule.source}`);
+        });
+        lines.push('}');
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Opens a read-only document with the configuration the validations of the active document use
+     * and where each value comes from.
+     */
+    async function showEffectiveConfig(): Promise<void> {
+        let document = Window.activeTextEditor && Window.activeTextEditor.document;
+        if (!document || !shouldBeValidated(document)) {
+            Window.showInformationMessage('Open a Stylus file to show its effective Stylint configuration.');
+            return;
+        }
+        await client.onReady();
+        let config: EffectiveConfigResult | null;
+        try {
+            config = await client.sendRequest(EffectiveConfigRequest.type, { textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri) } });
+        } catch (error) {
+            Window.showErrorMessage(`Failed to resolve the Stylint configuration: ${error.message}`);
+            return;
+        }
+        if (!config) {
+            Window.showWarningMessage('Stylint doesn\'t validate the file. See the Stylint output for details.');
+            return;
+        }
+        let uri = document.uri.with({ scheme: effectiveConfigScheme, path: `${document.uri.path} - Stylint Configuration` });
+        virtualDocuments.set(uri.toString(), renderEffectiveConfig(document, config));
+        virtualDocumentChanged.fire(uri);
+        // The comments are valid JSON with comments only.
+        let configDocument = await Languages.setTextDocumentLanguage(await Workspace.openTextDocument(uri), 'jsonc');
+        await Window.showTextDocument(configDocument, { preview: true });
+    }
+
+    function clearWorkspaceResults(): void {
+        client.onReady().then(() => {
+            client.sendNotification(ClearWorkspaceResultsNotification.type);
+        });
+    }
+
+    // The content of the read-only documents the extension shows, e.g. the previews of fixes.
+    let virtualDocuments: Map<string, string> = new Map<string, string>();
+    let virtualDocumentChanged = new EventEmitter<Uri>();
+    let virtualDocumentProvider: TextDocumentContentProvider = {
+        onDidChange: virtualDocumentChanged.event,
+        provideTextDocumentContent: uri => virtualDocuments.get(uri.toString())
+    };
+
+    function computeFixes(document: TextDocument, rules?: string[]): Thenable<ComputeFixesResult | null> {
+        return client.sendRequest(ComputeFixesRequest.type, {
+            textDocument: { uri: client.code2ProtocolConverter.asUri(document.uri), version: document.version },
+            rules
+        });
+    }
+
+    function applyEdits(document: TextDocument, edits: TextEdit[]): string {
+        let text = document.getText();
+        let offsets = edits.map((edit) => {
+            let range = client.protocol2CodeConverter.asRange(edit.range);
+            return { start: document.offsetAt(range.start), end: document.offsetAt(range.end), newText: edit.newText };
+        }).sort((a, b) => b.start - a.start);
+        offsets.forEach(edit => text = text.slice(0, edit.start) + edit.newText + text.slice(edit.end));
+        return text;
+    }
+
+    /**
+     * Shows the fixes of all auto-fixable problems in a diff editor. The user applies the fixes of all or
+     * of selected rules or cancels.
+     *
+     * @param uri The document to fix, defaults to the document of the active editor.
+     */
+    async function previewFixes(uri?: string): Promise<void> {
+        let document = uri
+            ? await Workspace.openTextDocument(client.protocol2CodeConverter.asUri(uri))
+            : Window.activeTextEditor && Window.activeTextEditor.document;
+        if (!document || !shouldBeValidated(document)) {
+            Window.showInformationMessage('Open a Stylus file to preview its Stylint fixes.');
+            return;
+        }
+        await client.onReady();
+        let version = document.version;
+        let fixes = await computeFixes(document);
+        if (!fixes) {
+            Window.showWarningMessage('The document changed while computing the Stylint fixes. Please try again.');
+            return;
+        }
+        if (fixes.edits.length === 0) {
+            Window.showInformationMessage('Stylint found no auto-fixable problems.');
+            return;
+        }
+
+        let previewUri = document.uri.with({ scheme: previewScheme });
+        virtualDocuments.set(previewUri.toString(), applyEdits(document, fixes.edits));
+        virtualDocumentChanged.fire(previewUri);
+        await Commands.executeCommand('vscode.diff', document.uri, previewUri, `${path.basename(document.uri.path)} ↔ Stylint Fixes`);
+        let items: RuleItem[] = Object.keys(fixes.rules).sort().map(rule => ({
+            label: rule,
+            description: `${fixes.rules[rule]} fixes`,
+            rule,
+            picked: true
+        }));
+        let picked = await Window.showQuickPick(items, {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            placeHolder: 'Apply the fixes of the selected rules. Press Escape to cancel.'
+        });
+        if (Window.activeTextEditor && Window.activeTextEditor.document.uri.toString() === previewUri.toString()) {
+            await Commands.executeCommand('workbench.action.closeActiveEditor');
+        }
+        virtualDocuments.delete(previewUri.toString());
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        if (picked.length < items.length && document.version === version) {
+            // The fixes of the other rules may overlap, hence compute the fixes of the selected rules anew.
+            fixes = await computeFixes(document, picked.map(item => item.rule));
+        }
+        if (!fixes || document.version !== version) {
+            Window.showWarningMessage('The document changed since the preview. No Stylint fixes were applied.');
+            return;
+        }
+        let workspaceEdit = new WorkspaceEdit();
+        workspaceEdit.set(document.uri, client.protocol2CodeConverter.asTextEdits(fixes.edits));
+        await Workspace.applyEdit(workspaceEdit);
+    }
+
     if (dummyCommands) {
         dummyCommands.forEach(command => command.dispose());
         dummyCommands = undefined;
@@ -648,6 +1044,20 @@ export function realActivate(context: ExtensionContext) {
         //     });
         // }),
         Commands.registerCommand('stylint.showOutputChannel', () => { client.outputChannel.show(); }),
+        Commands.registerCommand('stylint.lintWorkspace', lintWorkspace),
+        Commands.registerCommand('stylint.clearWorkspaceResults', clearWorkspaceResults),
+        Commands.registerCommand('stylint.previewFixes', previewFixes),
+        Commands.registerCommand('stylint.fixWorkspace', fixWorkspace),
+        Commands.registerCommand('stylint.showEffectiveConfig', showEffectiveConfig),
+        Workspace.registerTextDocumentContentProvider(previewScheme, virtualDocumentProvider),
+        Workspace.registerTextDocumentContentProvider(effectiveConfigScheme, virtualDocumentProvider),
+        virtualDocumentChanged,
+        // Code actions which change a configuration file save it, so the server picks up the change.
+        Commands.registerCommand('stylint.saveConfig', (uri: string) => {
+            return Workspace.openTextDocument(Uri.parse(uri)).then((document) => {
+                return document.isDirty ? document.save() : true;
+            });
+        }),
         statusBarItem
     );
 }
@@ -0,0 +1,495 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+import { TextDocument } from 'vscode-languageserver';
+
+/**
+ * Replaces the text between the two offsets of the document.
+ */
+interface StylintAutoFixEdit {
+    range: [number, number];
+    text: string;
+}
+
+/**
+ * Fixes a single line. Returns the fixed line or `undefined` if the line can't be fixed.
+ *
+ * @param previous The code of the previous line which has code, if any.
+ */
+type LineFixer = (line: string, expect: any, previous: string | undefined) => string | undefined;
+
+const stringRe = /("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/;
+// A string or a url. The content of an unquoted url must not change either, e.g. `url(data:image/png;base64,...)`.
+const literalRe = /("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\burl\((?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^)])*\))/i;
+const unitRe = /([\s:])0+(?:px|%|rem|em|vh|vw|vmin|vmax|ex|ch|mozmm|mm|cm|in|pt|pc)(?![\w-])/g;
+
+/**
+ * Splits the line into its code and its trailing line comment. Comment markers inside
+ * of strings and urls (e.g. `url(//cdn.com/a.png)` or `http://`) don't start a comment.
+ */
+function splitComment(line: string): [string, string] {
+    let quote: string | undefined;
+    let inUrl = false;
+    for (let i = 0; i < line.length; i++) {
+        let char = line[i];
+        if (quote) {
+            if (char === '\\') {
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (inUrl) {
+            inUrl = char !== ')';
+        } else if (/^url\(/i.test(line.slice(i, i + 4)) && !/[\w-]/.test(line[i - 1] || '')) {
+            inUrl = true;
+            i += 3;
+        } else if (char === '/' && line[i + 1] === '/' && line[i - 1] !== ':') {
+            return [line.slice(0, i), line.slice(i)];
+        }
+    }
+    return [line, ''];
+}
+
+/**
+ * Applies the replacement to the code of the line but neither to its strings and urls nor to its comment.
+ */
+function mapCode(line: string, replace: (code: string) => string): string {
+    let [code, comment] = splitComment(line);
+    return code.split(literalRe).map((part, index) => index % 2 === 0 ? replace(part) : part).join('') + comment;
+}
+
+/**
+ * Applies the replacement to the strings of the line, including the quoted urls.
+ */
+function mapStrings(line: string, replace: (value: string) => string): string {
+    let [code, comment] = splitComment(line);
+    return code.split(literalRe).map((part, index) => {
+        if (index % 2 === 0) {
+            return part;
+        }
+        return part[0] === '"' || part[0] === '\'' ? replace(part) : part.replace(new RegExp(stringRe.source, 'g'), replace);
+    }).join('') + comment;
+}
+
+/**
+ * Splits the code of the line into its content and its trailing whitespace and comment.
+ */
+function splitEnd(line: string): [string, string] {
+    let [code, comment] = splitComment(line);
+    let content = code.replace(/\s+$/, '');
+    return [content, code.slice(content.length) + comment];
+}
+
+/**
+ * Applies the replacement to the code outside of `calc()` expressions. A zero inside of them needs its unit.
+ */
+function mapOutsideCalc(code: string, replace: (code: string) => string): string {
+    let result = '';
+    let start = 0;
+    let calcRe = /calc\(/gi;
+    let match: RegExpExecArray | null;
+    while ((match = calcRe.exec(code)) !== null) {
+        let end = code.length;
+        let depth = 0;
+        for (let i = match.index + match[0].length - 1; i < code.length; i++) {
+            if (code[i] === '(') {
+                depth++;
+            } else if (code[i] === ')' && --depth === 0) {
+                end = i + 1;
+                break;
+            }
+        }
+        result += replace(code.slice(start, match.index)) + code.slice(match.index, end);
+        start = end;
+        calcRe.lastIndex = end;
+    }
+    return result + replace(code.slice(start));
+}
+
+/**
+ * Finds the brace pair of the line: a block whose `{` ends its first line and whose `}` stands on a line of its own.
+ * Braces inside of strings, urls and comments don't count.
+ *
+ * @return The lines of the `{` and of the `}` or `undefined` if the line has no such pair.
+ */
+function findBracePair(lines: string[], line: number): [number, number] | undefined {
+    let openLines: number[] = [];
+    let pairs: [number, number][] = [];
+    lines.forEach((text, index) => {
+        let code = splitComment(text)[0].split(literalRe).map((part, i) => i % 2 === 0 ? part : '').join('');
+        for (let char of code) {
+            if (char === '{') {
+                openLines.push(index);
+            } else if (char === '}' && openLines.length > 0) {
+                pairs.push([openLines.pop(), index]);
+            }
+        }
+    });
+    let pair = pairs.find(([open, close]) => open === line || close === line);
+    if (!pair || pair[0] === pair[1]) {
+        return undefined;
+    }
+    let [open, close] = pair;
+    let openContent = splitEnd(lines[open])[0];
+    if (!openContent.endsWith('{') || openContent.indexOf('{') !== openContent.length - 1 || lines[close].trim() !== '}') {
+        return undefined;
+    }
+    return pair;
+}
+
+function swapQuotes(value: string, quote: string): string {
+    let other = quote === '\'' ? '"' : '\'';
+    let content = value.slice(1, -1);
+    if (value[0] === quote || content.indexOf(quote) !== -1) {
+        return value;
+    }
+    return quote + content.split(`\\${other}`).join(other) + quote;
+}
+
+const lineFixers: { [rule: string]: LineFixer } = {
+    semicolons: (line, expect) => {
+        let [content, end] = splitEnd(line);
+        if (expect === 'always') {
+            return content.endsWith(';') ? undefined : content + ';' + end;
+        }
+        if (expect === 'never') {
+            // Only the trailing semicolon, others belong to the value, e.g. `url(data:image/png;base64,...)`.
+            return content.endsWith(';') ? content.slice(0, -1).replace(/\s+$/, '') + end : undefined;
+        }
+        return undefined;
+    },
+    colons: (line, expect, previous) => {
+        let [content, end] = splitEnd(line);
+        if (expect === 'always') {
+            if (previous !== undefined && previous.endsWith(',')) {
+                // The line continues the value of the previous one, e.g. `transition opacity 1s,`.
+                return undefined;
+            }
+            return content.replace(/^(\s*[^\s:,]+)(\s+)/, '$1:$2') + end;
+        }
+        if (expect === 'never') {
+            return content.replace(/^(\s*[^\s:]+):\s*/, '$1 ') + end;
+        }
+        return undefined;
+    },
+    commaSpace: (line, expect) => {
+        if (expect === 'always') {
+            return mapCode(line, code => code.replace(/,(?=\S)/g, ', '));
+        }
+        if (expect === 'never') {
+            return mapCode(line, code => code.replace(/,[ \t]+(?=\S)/g, ','));
+        }
+        return undefined;
+    },
+    parenSpace: (line, expect) => {
+        if (expect === 'always') {
+            return mapCode(line, code => code.replace(/\([ \t]*(?=[^\s)])/g, '( ').replace(/([^\s(])[ \t]*\)/g, '$1 )'));
+        }
+        if (expect === 'never') {
+            return mapCode(line, code => code.replace(/\([ \t]+/g, '(').replace(/[ \t]+\)/g, ')'));
+        }
+        return undefined;
+    },
+    trailingWhitespace: (line, expect) => {
+        return expect === 'never' ? line.replace(/[ \t]+$/, '') : undefined;
+    },
+    leadingZero: (line, expect) => {
+        if (expect === 'always') {
+            return mapCode(line, code => code.replace(/(^|[\s,(])\.(\d)/g, '$10.$2'));
+        }
+        if (expect === 'never') {
+            return mapCode(line, code => code.replace(/(^|[^\d.\w])0+\.(\d)/g, '$1.$2'));
+        }
+        return undefined;
+    },
+    zeroUnits: (line, expect) => {
+        // With 'always' the unit to add is unknown.
+        return expect === 'never' ? mapCode(line, code => mapOutsideCalc(code, part => part.replace(unitRe, '$10'))) : undefined;
+    },
+    quotePref: (line, expect) => {
+        if (expect === 'single') {
+            return mapStrings(line, value => swapQuotes(value, '\''));
+        }
+        if (expect === 'double') {
+            return mapStrings(line, value => swapQuotes(value, '"'));
+        }
+        return undefined;
+    },
+    none: (line, expect) => {
+        if (expect === 'always') {
+            return mapCode(line, code => code.replace(/((?:border|outline)(?::|\s)+)0(?![-.\w])/g, '$1none'));
+        }
+        if (expect === 'never') {
+            return mapCode(line, code => code.replace(/((?:border|outline)(?::|\s)+)none(?![-\w])/g, '$10'));
+        }
+        return undefined;
+    }
+};
+
+// The lines the sortOrder rule of stylint ignores.
+const unsortedRe = /[.#${}=>&*]|\(.*\)|(&:)|(if)|(for)|(@block)|(@import)|(@media)|(@extends)|,$/;
+
+function getIndentation(line: string): string {
+    return /^\s*/.exec(line)[0];
+}
+
+function isComment(line: string): boolean {
+    return line.trim().startsWith('//');
+}
+
+/**
+ * Returns the property of the line the same way the sortOrder rule does,
+ * or `undefined` if the rule ignores the line.
+ */
+function getProperty(line: string): string | undefined {
+    let [content] = splitEnd(line);
+    let property = content.replace(/(\(.+\))/, '').split(/[\s\t,:]/).filter(part => part.length > 0)[0];
+    return property && !unsortedRe.test(property) ? property : undefined;
+}
+
+function compareProperties(a: string, b: string, expect: any): number {
+    if (Array.isArray(expect)) {
+        // Properties which are not part of the ordering go last.
+        let aIndex = expect.indexOf(a) < 0 ? expect.length : expect.indexOf(a);
+        let bIndex = expect.indexOf(b) < 0 ? expect.length : expect.indexOf(b);
+        return aIndex - bIndex;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Sorts the properties around the given line. Like the sortOrder rule, it sorts a run of consecutive
+ * lines of the same indentation. Empty lines and nested selectors end the run. Comment lines move
+ * together with the property below them, lines the rule ignores keep their position.
+ *
+ * @param expect Either `alphabetical` or the ordering as array of properties.
+ * @return The first line and the sorted lines or `undefined` if the order can't be fixed.
+ */
+function sortProperties(lines: string[], line: number, expect: any): [number, string[]] | undefined {
+    if (expect !== 'alphabetical' && !Array.isArray(expect)) {
+        return undefined;
+    }
+    let indentation = getIndentation(lines[line]);
+    let belongsToRun = (index: number): boolean => {
+        return index >= 0 && index < lines.length && lines[index].trim().length > 0 && getIndentation(lines[index]) === indentation;
+    };
+    let start = line;
+    while (belongsToRun(start - 1)) {
+        start--;
+    }
+    let end = line;
+    while (belongsToRun(end + 1)) {
+        end++;
+    }
+    if (end + 1 < lines.length && getIndentation(lines[end + 1]).length > indentation.length) {
+        // The last line is a nested selector.
+        end--;
+    }
+
+    // Group the lines into units, a property together with the comments above it.
+    let units: { lines: string[], property: string | undefined }[] = [];
+    let comments: string[] = [];
+    for (let i = start; i <= end; i++) {
+        if (isComment(lines[i])) {
+            comments.push(lines[i]);
+            continue;
+        }
+        let property = getProperty(lines[i]);
+        if (property) {
+            units.push({ lines: comments.concat(lines[i]), property });
+        } else {
+            comments.forEach(comment => units.push({ lines: [comment], property: undefined }));
+            units.push({ lines: [lines[i]], property: undefined });
+        }
+        comments = [];
+    }
+    comments.forEach(comment => units.push({ lines: [comment], property: undefined }));
+
+    // Only the properties move, every other unit keeps its position.
+    let sorted = units
+        .filter(unit => unit.property !== undefined)
+        .map((unit, index) => ({ unit, index }))
+        .sort((a, b) => compareProperties(a.unit.property, b.unit.property, expect) || a.index - b.index)
+        .map(entry => entry.unit);
+    let result: string[] = [];
+    units.forEach(unit => result.push(...(unit.property !== undefined ? sorted.shift() : unit).lines));
+    return [start, result];
+}
+
+function getIndentationWidth(indentation: string, tabSize: number): number {
+    let width = 0;
+    for (let char of indentation) {
+        width += char === '\t' ? tabSize - width % tabSize : 1;
+    }
+    return width;
+}
+
+/**
+ * Computes the indentation of the lines for the given indentation unit. A line indented deeper than the
+ * line before opens a new level, hence every line keeps its nesting depth even if the old indentation is
+ * inconsistent. Lines inside of block comments keep their indentation relative to the start of the comment.
+ *
+ * @param unit The indentation of a single level, e.g. a tab or two spaces.
+ * @param tabSize The width of a tab in the old indentation.
+ * @return The new indentation by line or `undefined` for the lines to leave alone, like empty lines.
+ */
+function reindent(lines: string[], unit: string, tabSize: number): (string | undefined)[] {
+    let levels: number[] = [0];
+    let comment: { oldIndentation: string, newIndentation: string } | undefined;
+    return lines.map((line) => {
+        let indentation = getIndentation(line);
+        let result: string | undefined;
+        if (comment) {
+            result = indentation.startsWith(comment.oldIndentation)
+                ? comment.newIndentation + indentation.slice(comment.oldIndentation.length)
+                : undefined;
+            if (line.indexOf('*/') !== -1) {
+                comment = undefined;
+            }
+            return result;
+        }
+        if (line.trim().length === 0) {
+            return undefined;
+        }
+        let width = getIndentationWidth(indentation, tabSize);
+        while (levels.length > 1 && levels[levels.length - 1] > width) {
+            levels.pop();
+        }
+        if (width > levels[levels.length - 1]) {
+            levels.push(width);
+        }
+        result = unit.repeat(levels.length - 1);
+        let [code] = splitComment(line);
+        if (code.lastIndexOf('/*') > code.lastIndexOf('*/')) {
+            comment = { oldIndentation: indentation, newIndentation: result };
+        }
+        return result;
+    });
+}
+
+/**
+ * Computes the edits which reindent the lines of the document, see `reindent`.
+ *
+ * @param startLine The first zero based line to reindent.
+ * @param endLine The last zero based line to reindent.
+ * @return An edit for each line whose indentation changes.
+ */
+function computeIndentation(document: TextDocument, unit: string, tabSize: number, startLine: number, endLine: number): StylintAutoFixEdit[] {
+    let lines = document.getText().split(/\r?\n/);
+    let indentations = reindent(lines, unit, tabSize);
+    let result: StylintAutoFixEdit[] = [];
+    for (let line = Math.max(0, startLine); line <= Math.min(endLine, lines.length - 1); line++) {
+        let indentation = getIndentation(lines[line]);
+        if (indentations[line] !== undefined && indentations[line] !== indentation) {
+            let start = document.offsetAt({ line, character: 0 });
+            result.push({ range: [start, start + indentation.length], text: indentations[line] });
+        }
+    }
+    return result;
+}
+
+/**
+ * Computes the edit which fixes the problem the rule reported on the given line.
+ *
+ * @param document The linted document.
+ * @param rule The name of the stylint rule.
+ * @param line The zero based line of the problem.
+ * @param expect The rule's expectation as configured, e.g. `always` or `never`. For the sortOrder
+ * rule the grouped ordering must be passed as array of properties. For the indentPref rule the number of spaces.
+ * @return The edit or `undefined` if the problem can't be fixed automatically.
+ */
+function computeFix(document: TextDocument, rule: string, line: number, expect: any): StylintAutoFixEdit | undefined {
+    let text = document.getText();
+    let lines = text.split(/\r?\n/);
+    if (line < 0 || line >= lines.length) {
+        return undefined;
+    }
+    let newLines: string[];
+    let lastLine: number | undefined;
+    if (rule === 'brackets') {
+        if (expect !== 'never') {
+            // Adding brackets changes the start and the end of the block,
+            // a single edit can't do that without replacing the whole block.
+            return undefined;
+        }
+        // Removing one brace alone leaves an unbalanced block behind. Hence remove the `{` together with its `}`.
+        let pair = findBracePair(lines, line);
+        if (!pair) {
+            return undefined;
+        }
+        let [content, end] = splitEnd(lines[pair[0]]);
+        newLines = [content.slice(0, -1).replace(/\s+$/, '') + end].concat(lines.slice(pair[0] + 1, pair[1]));
+        [line, lastLine] = pair;
+    } else if (rule === 'sortOrder') {
+        let sorted = sortProperties(lines, line, expect);
+        if (!sorted) {
+            return undefined;
+        }
+        [line, newLines] = sorted;
+    } else if (rule === 'indentPref') {
+        if (typeof expect !== 'number' || expect <= 0) {
+            return undefined;
+        }
+        // Reindenting the line alone might change its nesting. Hence reindent its whole top-level block.
+        let isNested = (index: number): boolean => lines[index].trim().length === 0 || getIndentation(lines[index]).length > 0;
+        let start = line;
+        while (start > 0 && isNested(start)) {
+            start--;
+        }
+        let end = line;
+        while (end + 1 < lines.length && isNested(end + 1)) {
+            end++;
+        }
+        let block = lines.slice(start, end + 1);
+        let indentations = reindent(block, ' '.repeat(expect), expect);
+        newLines = block.map((text, index) => {
+            return indentations[index] === undefined ? text : indentations[index] + text.slice(getIndentation(text).length);
+        });
+        line = start;
+    } else if (lineFixers.hasOwnProperty(rule)) {
+        let previous = lines.slice(0, line).map(text => splitEnd(text)[0]).reverse().find(code => code.trim().length > 0);
+        let fixed = lineFixers[rule](lines[line], expect, previous);
+        if (fixed === undefined) {
+            return undefined;
+        }
+        newLines = [fixed];
+    } else {
+        return undefined;
+    }
+    if (lastLine === undefined) {
+        lastLine = line + newLines.length - 1;
+    }
+    let start = document.offsetAt({ line, character: 0 });
+    let end = document.offsetAt({ line: lastLine, character: 0 }) + lines[lastLine].length;
+    let newText = newLines.join(text.indexOf('\r\n') !== -1 ? '\r\n' : '\n');
+    if (newText === '' && line > 0) {
+        // Remove the whole line instead of leaving an empty one.
+        start = document.offsetAt({ line: line - 1, character: 0 }) + lines[line - 1].length;
+    }
+    let oldText = text.slice(start, end);
+    if (newText === oldText) {
+        return undefined;
+    }
+    // Only replace the part which actually changes, so fixes of the same line don't overlap.
+    let prefix = 0;
+    while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < oldText.length - prefix && suffix < newText.length - prefix
+        && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {
+        suffix++;
+    }
+    return {
+        range: [start + prefix, start + oldText.length - suffix],
+        text: newText.slice(prefix, newText.length - suffix)
+    };
+}
+
+export { StylintAutoFixEdit, splitComment, computeFix, computeIndentation };
@@ -0,0 +1,283 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+import { TextDocument, TextEdit, Range } from 'vscode-languageserver';
+import { splitComment } from './stylintAutoFix';
+
+const ignoreComment = '@stylint ignore';
+const offComment = '@stylint off';
+const onComment = '@stylint on';
+
+function getLines(document: TextDocument): string[] {
+    return document.getText().split(/\r?\n/);
+}
+
+function getEol(document: TextDocument): string {
+    return document.getText().indexOf('\r\n') !== -1 ? '\r\n' : '\n';
+}
+
+function getIndentation(line: string): string {
+    return /^\s*/.exec(line)[0];
+}
+
+function isEmpty(line: string): boolean {
+    return line.trim().length === 0;
+}
+
+/**
+ * Checks whether the line consists of nothing but the given toggle comment.
+ */
+function isToggleLine(line: string, toggle: string): boolean {
+    return new RegExp(`^\\s*//\\s*${toggle}\\s*$`).test(line);
+}
+
+function hasLineComment(line: string): boolean {
+    // Ignore the `//` of strings and urls like `url(//cdn.com/a.png)`.
+    return splitComment(line)[1].length > 0;
+}
+
+/**
+ * Removes the whole line including its line break.
+ */
+function deleteLine(lines: string[], line: number): TextEdit {
+    if (line + 1 < lines.length) {
+        return TextEdit.del(Range.create(line, 0, line + 1, 0));
+    }
+    // The last line has no line break, remove the one of the previous line.
+    let start = line > 0 ? { line: line - 1, character: lines[line - 1].length } : { line, character: 0 };
+    return TextEdit.del(Range.create(start.line, start.character, line, lines[line].length));
+}
+
+/**
+ * Finds the block of the given line: the selector the line belongs to together with everything indented
+ * deeper than that selector. For a line which isn't indented the block starts at the line itself.
+ *
+ * @return The first and the last line of the block.
+ */
+function getBlock(lines: string[], line: number): [number, number] {
+    let start = line;
+    let indentation = getIndentation(lines[line]).length;
+    if (indentation > 0) {
+        for (let i = line - 1; i >= 0; i--) {
+            if (!isEmpty(lines[i]) && getIndentation(lines[i]).length < indentation) {
+                start = i;
+                break;
+            }
+        }
+    }
+    let end = start;
+    let blockIndentation = getIndentation(lines[start]).length;
+    for (let i = start + 1; i < lines.length; i++) {
+        if (isEmpty(lines[i])) {
+            continue;
+        }
+        if (getIndentation(lines[i]).length <= blockIndentation) {
+            break;
+        }
+        end = i;
+    }
+    return [start, end];
+}
+
+/**
+ * Computes the edit which adds `@stylint ignore` to the line. An existing line comment is extended.
+ */
+function ignoreLine(document: TextDocument, line: number): TextEdit[] {
+    let lines = getLines(document);
+    let text = lines[line].replace(/\s+$/, '');
+    let insertion = hasLineComment(text) ? ` ${ignoreComment}` : ` // ${ignoreComment}`;
+    return [TextEdit.replace(Range.create(line, text.length, line, lines[line].length), insertion)];
+}
+
+/**
+ * Computes the edits which wrap the block of the line in `@stylint off` and `@stylint on` comments.
+ * If the block directly follows a disabled block, the existing `@stylint on` comment is moved
+ * instead of adding a new pair. Likewise an `@stylint off` comment directly after the block is reused.
+ */
+function disableBlock(document: TextDocument, line: number): TextEdit[] {
+    let lines = getLines(document);
+    let eol = getEol(document);
+    let [start, end] = getBlock(lines, line);
+    let indentation = getIndentation(lines[start]);
+    let edits: TextEdit[] = [];
+
+    if (start > 0 && isToggleLine(lines[start - 1], onComment)) {
+        edits.push(deleteLine(lines, start - 1));
+    } else {
+        edits.push(TextEdit.insert({ line: start, character: 0 }, `${indentation}// ${offComment}${eol}`));
+    }
+    if (end + 1 < lines.length && isToggleLine(lines[end + 1], offComment)) {
+        edits.push(deleteLine(lines, end + 1));
+    } else {
+        edits.push(TextEdit.insert({ line: end, character: lines[end].length }, `${eol}${indentation}// ${onComment}`));
+    }
+    return edits;
+}
+
+/**
+ * Computes the edits which disable stylint for the whole file: an `@stylint off` comment in the first
+ * line and no `@stylint on` comments. A toggle comment in the first line is reused.
+ */
+function disableFile(document: TextDocument): TextEdit[] {
+    let lines = getLines(document);
+    let edits: TextEdit[] = [];
+    let first = lines.findIndex(line => !isEmpty(line));
+    if (first !== -1 && isToggleLine(lines[first], onComment)) {
+        edits.push(TextEdit.replace(Range.create(first, 0, first, lines[first].length), `// ${offComment}`));
+    } else if (first === -1 || !isToggleLine(lines[first], offComment)) {
+        edits.push(TextEdit.insert({ line: 0, character: 0 }, `// ${offComment}${getEol(document)}`));
+    }
+    lines.forEach((line, index) => {
+        if (index > first && (isToggleLine(line, onComment) || isToggleLine(line, offComment))) {
+            edits.push(deleteLine(lines, index));
+        }
+    });
+    return edits;
+}
+
+/**
+ * A `@stylint` comment and the lines it affects, in the way stylint processes them: an `ignore` wins over
+ * every other comment of the line, an `off` only counts while stylint is on and vice versa.
+ */
+interface Toggle {
+    kind: 'ignore' | 'off' | 'on';
+    line: number;
+    /**
+     * For `off` comments the line of the matching `on` comment, if any.
+     */
+    onLine?: number;
+    /**
+     * Whether the comment has no effect since stylint is already off or on, respectively.
+     */
+    redundant?: boolean;
+}
+
+function findToggles(lines: string[]): Toggle[] {
+    let result: Toggle[] = [];
+    let off: Toggle | undefined;
+    lines.forEach((text, line) => {
+        if (text.indexOf(ignoreComment) !== -1) {
+            result.push({ kind: 'ignore', line });
+        } else if (text.indexOf(onComment) !== -1) {
+            result.push({ kind: 'on', line, redundant: !off });
+            if (off) {
+                off.onLine = line;
+                off = undefined;
+            }
+        } else if (text.indexOf(offComment) !== -1) {
+            let toggle: Toggle = { kind: 'off', line, redundant: !!off };
+            off = off || toggle;
+            result.push(toggle);
+        }
+    });
+    return result;
+}
+
+/**
+ * The codes of the diagnostics about `@stylint` comments.
+ */
+namespace ToggleProblemCode {
+    export const unusedIgnore: string = 'unused-stylint-ignore';
+    export const unusedOff: string = 'unused-stylint-off';
+    export const unmatchedOff: string = 'unmatched-stylint-off';
+    export const unmatchedOn: string = 'unmatched-stylint-on';
+
+    export function is(code: string | number | undefined): boolean {
+        return code === unusedIgnore || code === unusedOff || code === unmatchedOff || code === unmatchedOn;
+    }
+}
+
+interface ToggleProblem {
+    code: string;
+    message: string;
+    /**
+     * The range of the `@stylint` comment.
+     */
+    range: Range;
+}
+
+/**
+ * Disables the `@stylint` comments without changing the length of the text, so a
+ * report of the returned text tells which problems the comments suppress.
+ */
+function disableToggles(text: string): string {
+    return text.replace(/@stylint (ignore|off|on)/g, '@stylint_$1');
+}
+
+/**
+ * Checks the `@stylint` comments of the document.
+ *
+ * @param problemLines The zero based lines with problems when the comments are disabled, see `disableToggles`.
+ */
+function checkToggles(document: TextDocument, problemLines: Set<number>): ToggleProblem[] {
+    let lines = getLines(document);
+    let first = lines.findIndex(line => !isEmpty(line));
+    let hasProblems = (from: number, to: number): boolean => {
+        for (let line = from; line <= to; line++) {
+            if (problemLines.has(line)) {
+                return true;
+            }
+        }
+        return false;
+    };
+    let result: ToggleProblem[] = [];
+    let report = (code: string, message: string, toggle: Toggle): void => {
+        let start = lines[toggle.line].indexOf(`@stylint ${toggle.kind}`);
+        result.push({ code, message, range: Range.create(toggle.line, start, toggle.line, start + `@stylint ${toggle.kind}`.length) });
+    };
+    for (let toggle of findToggles(lines)) {
+        let line = toggle.line;
+        if (toggle.kind === 'ignore' && !problemLines.has(line)) {
+            report(ToggleProblemCode.unusedIgnore, 'The @stylint ignore comment suppresses no problem.', toggle);
+        } else if (toggle.kind === 'on' && toggle.redundant) {
+            report(ToggleProblemCode.unmatchedOn, 'The @stylint on comment has no matching @stylint off comment.', toggle);
+        } else if (toggle.kind === 'off' && toggle.redundant) {
+            report(ToggleProblemCode.unusedOff, 'Stylint is already off, the @stylint off comment has no effect.', toggle);
+        } else if (toggle.kind === 'off' && toggle.onLine === undefined && line !== first) {
+            // An off comment in the first line disables stylint for the whole file on purpose.
+            report(ToggleProblemCode.unmatchedOff, 'The @stylint off comment has no matching @stylint on comment. Stylint is off for the rest of the file.', toggle);
+        } else if (toggle.kind === 'off' && !hasProblems(line + 1, toggle.onLine !== undefined ? toggle.onLine - 1 : lines.length - 1)) {
+            report(ToggleProblemCode.unusedOff, 'The @stylint off comment suppresses no problem.', toggle);
+        }
+    }
+    return result;
+}
+
+/**
+ * Removes the toggle comment from the line. If the line consists of nothing else it is removed entirely.
+ */
+function removeToggleComment(lines: string[], line: number, toggle: string): TextEdit {
+    let text = lines[line];
+    let index = text.indexOf(toggle);
+    let before = text.slice(0, index).replace(/[ \t]*$/, '');
+    let end = text.slice(index + toggle.length).trim().length === 0 ? text.length : index + toggle.length;
+    if (end === text.length && /^\s*\/\/$/.test(before)) {
+        return deleteLine(lines, line);
+    }
+    // Don't leave an empty line comment behind.
+    let start = end === text.length && before.endsWith('//') ? before.slice(0, -2).replace(/[ \t]*$/, '').length : before.length;
+    return TextEdit.del(Range.create(line, start, line, end));
+}
+
+/**
+ * Computes the edits which remove the `@stylint` comment of the given line. For an `off` comment the matching `on` comment is removed, too.
+ */
+function removeToggle(document: TextDocument, line: number): TextEdit[] {
+    let lines = getLines(document);
+    let toggle = findToggles(lines).find(toggle => toggle.line === line);
+    if (!toggle) {
+        return [];
+    }
+    let edits: TextEdit[] = [];
+    edits.push(removeToggleComment(lines, line, `@stylint ${toggle.kind}`));
+    if (toggle.kind === 'off' && !toggle.redundant && toggle.onLine !== undefined) {
+        edits.push(removeToggleComment(lines, toggle.onLine, onComment));
+    }
+    return edits;
+}
+
+export { ignoreLine, disableBlock, disableFile, ToggleProblem, ToggleProblemCode, disableToggles, checkToggles, removeToggle };
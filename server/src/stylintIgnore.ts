@@ -0,0 +1,117 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+import fs = require('fs');
+import path = require('path');
+import { Minimatch, IMinimatch } from 'minimatch';
+
+/**
+ * Reads the ignore patterns of a directory the same way stylint does: from the
+ * `stylintignore` array in the package.json or else from the .stylintignore file.
+ *
+ * @return The patterns or `undefined` if the directory defines none.
+ */
+function readPatterns(directory: string): string[] | undefined {
+    try {
+        let pkg = JSON.parse(fs.readFileSync(path.join(directory, 'package.json'), 'utf8'));
+        if (pkg && Array.isArray(pkg.stylintignore)) {
+            return pkg.stylintignore;
+        }
+    } catch (error) {
+        // No or an invalid package.json.
+    }
+    try {
+        return fs.readFileSync(path.join(directory, '.stylintignore'), 'utf8').split(/\r?\n/);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+function toMinimatch(patterns: string[]): IMinimatch[] {
+    return patterns
+        .filter(pattern => typeof pattern === 'string')
+        .map(pattern => pattern.trim())
+        .filter(pattern => pattern.length > 0 && !pattern.startsWith('#'))
+        .map(pattern => new Minimatch(pattern.replace(/\/$/, '/**'), { matchBase: true, dot: true }));
+}
+
+function isInDirectory(file: string, directory: string): boolean {
+    let relativePath = path.relative(directory, file);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+/**
+ * Checks the path relative to a directory and all its parent directories against the patterns.
+ * A pattern matching a directory matches everything inside of it.
+ */
+function matches(file: string, directory: string, patterns: IMinimatch[]): boolean {
+    if (patterns.length === 0) {
+        return false;
+    }
+    if (!isInDirectory(file, directory)) {
+        return false;
+    }
+    let segments = path.relative(directory, file).split(path.sep);
+    for (let i = 1; i <= segments.length; i++) {
+        let candidate = segments.slice(0, i).join('/');
+        if (patterns.some(pattern => pattern.match(candidate))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+class StylintIgnore {
+    private _directory2Patterns: Map<string, IMinimatch[] | null> = new Map<string, IMinimatch[] | null>();
+
+    /**
+     * Checks whether the file is ignored. The nearest .stylintignore between the file and
+     * the root directory applies, its patterns are relative to the directory it lives in.
+     *
+     * @param file The absolute path of the file.
+     * @param root The directory the lookup stops at, usually the workspace folder.
+     * If omitted only the file's directory is looked at.
+     * @param exclude Additional glob patterns relative to the root directory.
+     */
+    public isIgnored(file: string, root: string | undefined, exclude: string[] = []): boolean {
+        if (root && matches(file, root, toMinimatch(exclude))) {
+            return true;
+        }
+        let directory = path.dirname(file);
+        let stop = root && isInDirectory(file, root) ? root : directory;
+        while (true) {
+            let patterns = this.getPatterns(directory);
+            if (patterns) {
+                return matches(file, directory, patterns);
+            }
+            let parent = path.dirname(directory);
+            if (directory === stop || parent === directory) {
+                return false;
+            }
+            directory = parent;
+        }
+    }
+
+    /**
+     * Forgets the cached patterns. Call it when an ignore file changed.
+     */
+    public clear(): void {
+        this._directory2Patterns.clear();
+    }
+
+    private getPatterns(directory: string): IMinimatch[] | null {
+        let result = this._directory2Patterns.get(directory);
+        if (result === undefined) {
+            let patterns = readPatterns(directory);
+            result = patterns ? toMinimatch(patterns) : null;
+            this._directory2Patterns.set(directory, result);
+        }
+        return result;
+    }
+}
+
+export { StylintIgnore };
@@ -5,49 +5,264 @@
 
 'use strict';
 
-const exec = require('sb-exec');
 import fs = require('fs');
+import path = require('path');
+import { fork, ChildProcess } from 'child_process';
+import { ValidateRequest, ValidateResponse } from './stylintWorkerProtocol';
 
-class StylintModule {
-    private _stylintrcPath: string
-    private _jsonReporterPath: string
-    private _stylintExecPath: string // Path to the index.js
+interface Job {
+    key: string;
+    request: ValidateRequest;
+    resolve: (report: any) => void;
+    reject: (error: any) => void;
+}
+
+/**
+ * A forked process which keeps the stylint library loaded between validations.
+ * It lints one job at a time so a job can be aborted by killing the process.
+ */
+class StylintWorker {
+    private _process: ChildProcess | undefined;
+    private _queue: Job[] = [];
+    private _current: Job | undefined;
+    private _recycle: boolean = false;
+
+    constructor(private _libraryPath: string) {
+    }
+
+    public validate(key: string, request: ValidateRequest): Promise<any> {
+        return new Promise<any>((resolve, reject) => {
+            this._queue.push({ key, request, resolve, reject });
+            this.next();
+        });
+    }
+
+    /**
+     * Drops the queued jobs of the given key and kills the process if it currently lints for that key.
+     * Cancelled jobs resolve to `undefined`.
+     */
+    public cancel(key: string): void {
+        this._queue = this._queue.filter((job) => {
+            if (job.key === key) {
+                job.resolve(undefined);
+                return false;
+            }
+            return true;
+        });
+        if (this._current && this._current.key === key) {
+            let current = this._current;
+            this._current = undefined;
+            this.killProcess();
+            current.resolve(undefined);
+            this.next();
+        }
+    }
+
+    /**
+     * Replaces the process by a fresh one as soon as the current job is done.
+     */
+    public recycle(): void {
+        this._recycle = true;
+        this.next();
+    }
 
-    public get stylintExecPath(): string {
-        return this._stylintExecPath;
+    private next(): void {
+        if (this._current) {
+            return;
+        }
+        if (this._recycle) {
+            this._recycle = false;
+            this.killProcess();
+        }
+        if (this._queue.length === 0) {
+            return;
+        }
+        this._current = this._queue.shift();
+        this.getProcess().send(this._current.request);
+    }
+
+    private getProcess(): ChildProcess {
+        if (this._process) {
+            return this._process;
+        }
+        // Don't inherit the debug flags of the server, they would clash on the inspector port.
+        let child = fork(path.join(__dirname, 'stylintWorker.js'), [this._libraryPath], { execArgv: [] });
+        child.on('message', (response: ValidateResponse) => {
+            let current = this._current;
+            if (this._process !== child || !current || current.request.id !== response.id) {
+                return;
+            }
+            this._current = undefined;
+            if (response.error) {
+                let error = new Error(response.error.message);
+                error.stack = response.error.stack;
+                current.reject(error);
+            } else {
+                current.resolve(response.report);
+            }
+            this.next();
+        });
+        child.on('exit', (code) => {
+            // Processes killed on purpose are already detached.
+            if (this._process !== child) {
+                return;
+            }
+            this._process = undefined;
+            if (this._current) {
+                this._current.reject(new Error(`The stylint worker exited unexpectedly with code ${code}.`));
+                this._current = undefined;
+            }
+            this.next();
+        });
+        this._process = child;
+        return child;
     }
 
-    public set stylintExecPath(stylintExecPath: string) {
-        this._stylintExecPath = stylintExecPath;
+    private killProcess(): void {
+        if (this._process) {
+            let child = this._process;
+            this._process = undefined;
+            child.kill();
+        }
     }
+}
+
+/**
+ * The options of a single validation.
+ */
+interface ValidateOptions {
+    /**
+     * The working directory stylint runs in.
+     */
+    cwd: string;
+    /**
+     * The stylint configuration. If omitted stylint looks it up in the working directory.
+     */
+    config?: any;
+}
+
+let requestCounter: number = 0;
 
-    public set stylintrcPath(stylintrcPath: string) {
-        this._stylintrcPath = stylintrcPath;
+/**
+ * A handle to a stylint library. It holds no per-document state, hence
+ * documents with different configurations can share it.
+ */
+class StylintModule {
+    private _worker: StylintWorker;
+    private _groupedOrdering: string[] | null | undefined;
+    private _options: string[] | undefined;
+    private _properties: string[] | undefined;
+
+    /**
+     * @param libraryPath The resolved path to the stylint library.
+     */
+    constructor(private _libraryPath: string) {
+        this._worker = new StylintWorker(_libraryPath);
     }
 
+    public get libraryPath(): string {
+        return this._libraryPath;
+    }
 
-    public get stylintrcPath(): string {
-        return this._stylintrcPath;
+    /**
+     * The configuration stylint uses if it finds none.
+     */
+    public get defaultConfig(): any {
+        let config = require(path.join(path.dirname(this._libraryPath), 'src', 'core', 'config.js'));
+        // Don't hand out the cached module.
+        return JSON.parse(JSON.stringify(config));
     }
 
-    public get jsonReporterPath(): string {
-        return this._jsonReporterPath;
+    /**
+     * The order of the properties the sortOrder rule expects for its `grouped` option
+     * or `undefined` if the library doesn't ship it.
+     */
+    public get groupedOrdering(): string[] | undefined {
+        if (this._groupedOrdering === undefined) {
+            try {
+                let ordering = JSON.parse(fs.readFileSync(path.join(path.dirname(this._libraryPath), 'src', 'data', 'ordering.json'), 'utf8'));
+                this._groupedOrdering = Array.isArray(ordering.grouped) ? ordering.grouped : null;
+            } catch (error) {
+                this._groupedOrdering = null;
+            }
+        }
+        return this._groupedOrdering || undefined;
     }
 
-    public set jsonReporterPath(jsonReporterPath: string) {
-        this._jsonReporterPath = jsonReporterPath;
+    /**
+     * The version of the library or `undefined` if it can't be read.
+     */
+    public get version(): string | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(path.join(path.dirname(this._libraryPath), 'package.json'), 'utf8')).version;
+        } catch (error) {
+            return undefined;
+        }
     }
 
-    public async validate(pathToFiles: string): Promise<any> {
+    /**
+     * The rules and the other options a configuration of this library may contain.
+     */
+    public get options(): string[] {
+        if (this._options === undefined) {
+            let options: Set<string> = new Set<string>(Object.keys(this.defaultConfig));
+            // Every file in the checks directory is a rule.
+            fs.readdirSync(path.join(path.dirname(this._libraryPath), 'src', 'checks'))
+                .filter(file => path.extname(file) === '.js' && file !== 'index.js')
+                .forEach(file => options.add(path.basename(file, '.js')));
+            // The options without a default value.
+            ['exclude', 'mixins', 'customProperties'].forEach(option => options.add(option));
+            this._options = Array.from(options);
+        }
+        return this._options;
+    }
 
-        const parameter = [pathToFiles, '--reporter', this.jsonReporterPath];
-        if (fs.existsSync(this.stylintrcPath)) {
-            parameter.push('--config', this.stylintrcPath)
+    /**
+     * The properties the library knows, including their vendor prefixed variants.
+     */
+    public get properties(): string[] {
+        if (this._properties === undefined) {
+            let valid = JSON.parse(fs.readFileSync(path.join(path.dirname(this._libraryPath), 'src', 'data', 'valid.json'), 'utf8'));
+            let properties: string[] = Array.isArray(valid.css) ? valid.css : [];
+            let prefixes: string[] = Array.isArray(valid.prefixes) ? valid.prefixes : [];
+            this._properties = properties.concat(...prefixes.map(prefix => properties.map(property => prefix + property)));
         }
-        const options = { ignoreExitCode: true };
-        const buffer = await exec.execNode(this.stylintExecPath, parameter, options);
-        return JSON.parse(buffer.toString());
+        return this._properties;
+    }
+
+    /**
+     * Lints the given content instead of the file on disk, so the result matches the editor buffer.
+     *
+     * @param content The text to lint.
+     * @param fileName The name of the file the content belongs to.
+     * @param uri The URI of the document, used to cancel the validation.
+     * @param options The working directory and configuration of this validation.
+     * @return The report or `undefined` if the validation got cancelled.
+     */
+    public async validate(content: string, fileName: string, uri: string, options: ValidateOptions): Promise<any> {
+        return this._worker.validate(uri, {
+            id: requestCounter++,
+            content: content,
+            fileName: fileName,
+            config: options.config,
+            cwd: options.cwd
+        });
+    }
+
+    /**
+     * Cancels the pending and in-flight validations of the given document.
+     */
+    public cancel(uri: string): void {
+        this._worker.cancel(uri);
+    }
+
+    /**
+     * Replaces the worker process by a fresh one, for example
+     * after the library or a configuration file changed.
+     */
+    public recycle(): void {
+        this._worker.recycle();
     }
 }
 
-export { StylintModule };
+export { StylintModule, ValidateOptions };
@@ -13,11 +13,20 @@ import {
     Command, WorkspaceChange,
     CodeActionRequest, VersionedTextDocumentIdentifier,
     ExecuteCommandRequest, DidChangeWatchedFilesNotification, DidChangeConfigurationNotification,
-    WorkspaceFolder, DidChangeWorkspaceFoldersNotification, CodeAction, CodeActionKind
+    WorkspaceFolder, DidChangeWorkspaceFoldersNotification, CodeAction, CodeActionKind, CodeActionParams, FileEvent, FileChangeType,
+    DocumentFormattingRequest, DocumentRangeFormattingRequest, FormattingOptions
 } from 'vscode-languageserver';
 
 import { StylintModule } from './stylintModule';
+import { StylintIgnore } from './stylintIgnore';
+import { Stylintrc, StylintrcResolver, modifyStylintrc } from './stylintrcResolver';
+import { checkStylintrc } from './stylintrcValidator';
+import { StylintAutoFixEdit, computeFix, computeIndentation } from './stylintAutoFix';
+import {
+    ignoreLine, disableBlock, disableFile, ToggleProblem, ToggleProblemCode, disableToggles, checkToggles, removeToggle
+} from './stylintComments';
 import * as fs from 'fs';
+import * as os from 'os';
 import { URI } from 'vscode-uri';
 import * as path from 'path';
 
@@ -38,6 +47,21 @@ namespace CommandIds {
     export const applySameFixes: string = 'stylint.applySameFixes';
     export const applyAllFixes: string = 'stylint.applyAllFixes';
     export const applyAutoFix: string = 'stylint.applyAutoFix';
+    /**
+     * Executed by the client. Saves a configuration file after a code action changed it.
+     */
+    export const saveConfig: string = 'stylint.saveConfig';
+    /**
+     * Executed by the client. Shows the fixes of all auto-fixable problems before applying them.
+     */
+    export const previewFixes: string = 'stylint.previewFixes';
+}
+
+namespace StylintCodeActionKind {
+    /**
+     * Fixes all auto-fixable problems, e.g. as part of `editor.codeActionsOnSave`.
+     */
+    export const SourceFixAll: CodeActionKind = 'source.fixAll.stylint';
 }
 
 interface StylintError extends Error {
@@ -84,6 +108,91 @@ namespace NoStylintLibraryRequest {
     export const type = new RequestType<NoStylintLibraryParams, NoStylintLibraryResult, void, void>('stylint/noLibrary');
 }
 
+interface LintFilesParams {
+    uris: string[];
+}
+
+interface LintFilesResult {
+}
+
+namespace LintFilesRequest {
+    export const type = new RequestType<LintFilesParams, LintFilesResult, void, void>('stylint/lintFiles');
+}
+
+namespace ClearWorkspaceResultsNotification {
+    export const type = new NotificationType<void, void>('stylint/clearWorkspaceResults');
+}
+
+interface ComputeFixesParams {
+    textDocument: VersionedTextDocumentIdentifier;
+    /**
+     * Only fix the problems of these rules. If omitted all auto-fixable problems are fixed.
+     */
+    rules?: string[];
+}
+
+interface ComputeFixesResult {
+    edits: TextEdit[];
+    /**
+     * The number of fixed problems by rule.
+     */
+    rules: { [rule: string]: number };
+}
+
+namespace ComputeFixesRequest {
+    export const type = new RequestType<ComputeFixesParams, ComputeFixesResult | null, void, void>('stylint/computeFixes');
+}
+
+interface FixFilesParams {
+    uris: string[];
+    /**
+     * Only fix the problems of these rules. If omitted all auto-fixable problems are fixed.
+     */
+    rules?: string[];
+}
+
+interface FileFixes extends ComputeFixesResult {
+    /**
+     * The version is `null` if the file was fixed from its content on disk.
+     */
+    textDocument: VersionedTextDocumentIdentifier;
+}
+
+interface FixFilesResult {
+    files: FileFixes[];
+}
+
+namespace FixFilesRequest {
+    export const type = new RequestType<FixFilesParams, FixFilesResult, void, void>('stylint/fixFiles');
+}
+
+interface ConfigValue {
+    value: any;
+    /**
+     * Where the value comes from, e.g. the path of a .stylintrc or a setting.
+     */
+    source: string;
+}
+
+interface EffectiveConfigParams {
+    textDocument: TextDocumentIdentifier;
+}
+
+interface EffectiveConfigResult {
+    library: string;
+    version: string | undefined;
+    workingDirectory: ConfigValue;
+    /**
+     * The path of the configuration file or `null` if stylint's defaults apply.
+     */
+    configuration: ConfigValue;
+    rules: { [name: string]: ConfigValue };
+}
+
+namespace EffectiveConfigRequest {
+    export const type = new RequestType<EffectiveConfigParams, EffectiveConfigResult | null, void, void>('stylint/effectiveConfig');
+}
+
 type RunValues = 'onType' | 'onSave';
 
 interface DirectoryItem {
@@ -104,8 +213,13 @@ interface TextDocumentSettings {
     autoFix: boolean;
     autoFixOnSave: boolean;
     stylintrcPath: string | undefined;
-    stylintJsonReporterPath: string,
+    /**
+     * The rules of the `stylint.rules` setting. They take precedence over the configuration file.
+     */
+    rules: { [name: string]: any };
     run: RunValues;
+    debounceMs: number;
+    exclude: string[];
     nodePath: string | undefined;
     workspaceFolder: WorkspaceFolder | undefined;
     workingDirectory: DirectoryItem | undefined;
@@ -113,11 +227,6 @@ interface TextDocumentSettings {
     resolvedGlobalPackageManagerPath: string | undefined;
 }
 
-interface StylintAutoFixEdit {
-    range: [number, number];
-    text: string;
-}
-
 interface StylintProblem {
     line: number;
     column: number;
@@ -126,6 +235,10 @@ interface StylintProblem {
     message: string;
     endLine?: number;
     endColumn?: number;
+    /**
+     * The rule's expectation the problem was reported for, e.g. `always` or `never`.
+     */
+    expect?: any;
     fix?: StylintAutoFixEdit;
 }
 
@@ -268,6 +381,30 @@ function getFilePath(documentOrUri: string | TextDocument): string {
     return getFileSystemPath(uri);
 }
 
+/**
+ * Returns the name stylint sees for a document. Documents which don't live on
+ * disk (e.g. untitled buffers or git diffs) are named after their URI's path.
+ */
+function getFileName(document: TextDocument): string {
+    let file = getFilePath(document);
+    if (file) {
+        return file;
+    }
+    let name = path.posix.basename(URI.parse(document.uri).path);
+    return name ? name : 'untitled.styl';
+}
+
+function getWorkspaceFolderPath(settings: TextDocumentSettings): string | undefined {
+    if (!settings.workspaceFolder) {
+        return undefined;
+    }
+    let workspaceFolderUri = URI.parse(settings.workspaceFolder.uri);
+    if (workspaceFolderUri.scheme !== 'file') {
+        return undefined;
+    }
+    return getFileSystemPath(workspaceFolderUri);
+}
+
 const exitCalled = new NotificationType<[number, string], void>('stylint/exitCalled');
 
 const nodeExit = process.exit;
@@ -350,37 +487,32 @@ function resolveSettings(document: TextDocument): Thenable<TextDocumentSettings>
         }
         let uri = URI.parse(document.uri);
         let promise: Thenable<string>
-        if (uri.scheme === 'file') {
-            let file = uri.fsPath;
-            let directory = path.dirname(file);
-            if (settings.nodePath) {
-                let nodePath = settings.nodePath;
-                if (!path.isAbsolute(nodePath) && settings.workspaceFolder !== void 0) {
-                    let uri = URI.parse(settings.workspaceFolder.uri);
-                    if (uri.scheme === 'file') {
-                        nodePath = path.join(uri.fsPath, nodePath);
-                    }
+        // Documents which don't live on disk resolve the library from their workspace folder.
+        let directory = uri.scheme === 'file' ? path.dirname(uri.fsPath) : getWorkspaceFolderPath(settings);
+        if (settings.nodePath) {
+            let nodePath = settings.nodePath;
+            if (!path.isAbsolute(nodePath) && settings.workspaceFolder !== void 0) {
+                let uri = URI.parse(settings.workspaceFolder.uri);
+                if (uri.scheme === 'file') {
+                    nodePath = path.join(uri.fsPath, nodePath);
                 }
-                promise = Files.resolve('stylint', nodePath, nodePath, trace).then<string, string>(undefined, () => {
-                    return Files.resolve('stylint', settings.resolvedGlobalPackageManagerPath, directory, trace);
-                });
-            } else {
-                promise = Files.resolve('stylint', settings.resolvedGlobalPackageManagerPath, directory, trace);
             }
+            promise = Files.resolve('stylint', nodePath, nodePath, trace).then<string, string>(undefined, () => {
+                return Files.resolve('stylint', settings.resolvedGlobalPackageManagerPath, directory, trace);
+            });
         } else {
-            promise = Files.resolve('stylint', settings.resolvedGlobalPackageManagerPath, settings.workspaceFolder ? settings.workspaceFolder.uri : undefined, trace);
+            promise = Files.resolve('stylint', settings.resolvedGlobalPackageManagerPath, directory, trace);
         }
         return promise.then((resolvedPath) => {
             let library = path2Library.get(resolvedPath);
             if (!library) {
-                library = new StylintModule();
-                library.stylintrcPath = settings.stylintrcPath
-                library.stylintExecPath = path.join(path.dirname(resolvedPath), 'bin', 'stylint');
-                if (!fs.existsSync(library.stylintExecPath)) {
+                library = new StylintModule(resolvedPath);
+                let stylintExecPath = path.join(path.dirname(resolvedPath), 'bin', 'stylint');
+                if (!fs.existsSync(stylintExecPath)) {
                     settings.validate = false;
-                    connection.console.error(`The stylint exec path="${library.stylintExecPath}" doesn\'t exist. You need at least stylint@1.5.9`);
+                    connection.console.error(`The stylint exec path="${stylintExecPath}" doesn\'t exist. You need at least stylint@1.5.9`);
                 } else {
-                    connection.console.info(`Stylint exec path set to ${library.stylintExecPath}`);
+                    connection.console.info(`Stylint library path set to ${resolvedPath}`);
                     settings.library = library;
                 }
                 path2Library.set(resolvedPath, library);
@@ -562,30 +694,107 @@ documents.onDidOpen((event) => {
     });
 });
 
+let debounceTimers: Map<string, NodeJS.Timeout> = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Clears the debounce timer of the document and aborts its running validation.
+ */
+function cancelValidation(uri: string): void {
+    let timer = debounceTimers.get(uri);
+    if (timer) {
+        clearTimeout(timer);
+        debounceTimers.delete(uri);
+    }
+    path2Library.forEach(library => library.cancel(uri));
+}
+
 // A text document has changed. Validate the document according the run setting.
 documents.onDidChangeContent((event) => {
     resolveSettings(event.document).then((settings) => {
         if (!settings.validate || settings.run !== 'onType') {
             return;
         }
-        messageQueue.addNotificationMessage(ValidateNotification.type, event.document, event.document.version);
+        let document = event.document;
+        // Never let an outdated validation run or publish its diagnostics.
+        cancelValidation(document.uri);
+        if (settings.debounceMs > 0) {
+            debounceTimers.set(document.uri, setTimeout(() => {
+                debounceTimers.delete(document.uri);
+                messageQueue.addNotificationMessage(ValidateNotification.type, document, document.version);
+            }, settings.debounceMs));
+        } else {
+            messageQueue.addNotificationMessage(ValidateNotification.type, document, document.version);
+        }
     });
 });
 
-function getFixes(textDocument: TextDocument): TextEdit[] {
-    let uri = textDocument.uri
-    let edits = codeActions.get(uri);
-    function createTextEdit(editInfo: AutoFix): TextEdit {
-        return TextEdit.replace(Range.create(textDocument.positionAt(editInfo.edit.range[0]), textDocument.positionAt(editInfo.edit.range[1])), editInfo.edit.text || '');
+/**
+ * The maximum number of times the fixed content is linted again to find the fixes
+ * which got skipped because they overlap another one.
+ */
+const maxFixPasses = 10;
+
+function applyFixes(text: string, fixes: AutoFix[]): string {
+    // The fixes are sorted and overlap free. Apply them from the end so the offsets stay valid.
+    for (let i = fixes.length - 1; i >= 0; i--) {
+        let edit = fixes[i].edit;
+        text = text.slice(0, edit.range[0]) + (edit.text || '') + text.slice(edit.range[1]);
     }
-    if (edits) {
-        let fixes = new Fixes(edits);
-        if (fixes.isEmpty() || textDocument.version !== fixes.getDocumentVersion()) {
-            return [];
+    return text;
+}
+
+/**
+ * Fixes all auto-fixable problems of the document's current version. Fixes which overlap an earlier fix
+ * are skipped by a pass, so the fixed content is linted again in memory until no fixes are left.
+ *
+ * @param rules Only fix the problems of these rules. If omitted all auto-fixable problems are fixed.
+ * @return A single edit which applies all fixes together with the number of fixes by rule. The edits are empty if
+ * there is nothing to fix or the document is ignored. `undefined` if the document changed in the meantime.
+ */
+async function computeAllFixes(textDocument: TextDocument, settings: TextDocumentSettings, rules?: string[]): Promise<ComputeFixesResult | undefined> {
+    if (isIgnored(textDocument, settings)) {
+        // Don't rewrite files excluded from linting, e.g. vendored ones, on save.
+        return { edits: [], rules: {} };
+    }
+    let version = textDocument.version;
+    let original = textDocument.getText();
+    let text = original;
+    let fixedRules: { [rule: string]: number } = Object.create(null);
+    for (let pass = 0; pass < maxFixPasses; pass++) {
+        let fixed = TextDocument.create(textDocument.uri, textDocument.languageId, version, text);
+        let problems = await lint(fixed, settings, true);
+        if (problems === undefined || textDocument.version !== version) {
+            return undefined;
+        }
+        let edits = new Map<string, AutoFix>();
+        problems.filter(problem => problem.fix && problem.rule && (!rules || rules.indexOf(problem.rule) !== -1)).forEach((problem) => {
+            edits.set(computeKey(makeDiagnostic(problem)), { label: '', documentVersion: version, ruleId: problem.rule, edit: problem.fix });
+        });
+        let fixes = new Fixes(edits).getOverlapFree();
+        if (fixes.length === 0) {
+            break;
         }
-        return fixes.getOverlapFree().map(createTextEdit);
+        fixes.forEach(fix => fixedRules[fix.ruleId] = (fixedRules[fix.ruleId] || 0) + 1);
+        text = applyFixes(text, fixes);
     }
-    return [];
+    if (text === original) {
+        return { edits: [], rules: {} };
+    }
+    // Replace only the changed part, so the cursor stays where it is.
+    let prefix = 0;
+    while (prefix < original.length && prefix < text.length && original[prefix] === text[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < original.length - prefix && suffix < text.length - prefix
+        && original[original.length - 1 - suffix] === text[text.length - 1 - suffix]) {
+        suffix++;
+    }
+    let range = Range.create(textDocument.positionAt(prefix), textDocument.positionAt(original.length - suffix));
+    return {
+        edits: [TextEdit.replace(range, text.slice(prefix, text.length - suffix))],
+        rules: fixedRules
+    };
 }
 
 documents.onWillSaveWaitUntil((event) => {
@@ -594,18 +803,12 @@ documents.onWillSaveWaitUntil((event) => {
     }
 
     let document = event.document;
-    return resolveSettings(document).then((settings) => {
+    return resolveSettings(document).then<TextEdit[]>((settings) => {
         if (!settings.autoFixOnSave) {
             return [];
         }
-        // If we validate on save and want to apply fixes on will save
-        // we need to validate the file.
-        if (settings.run === 'onSave') {
-            // Do not queue this since we want to get the fixes as fast as possible.
-            return validateSingle(document, false).then(() => getFixes(document));
-        } else {
-            return getFixes(document);
-        }
+        // Do not queue this since we want to get the fixes as fast as possible.
+        return computeAllFixes(document, settings).then(result => result ? result.edits : [], () => []);
     });
 });
 
@@ -622,19 +825,29 @@ documents.onDidSave((event) => {
 documents.onDidClose((event) => {
     resolveSettings(event.document).then((settings) => {
         let uri = event.document.uri;
+        cancelValidation(uri);
         document2Settings.delete(uri);
         codeActions.delete(uri);
-        if (settings.validate) {
+        if (workspaceResults.has(uri)) {
+            // Keep the workspace result but for the content on disk.
+            validateFile(uri);
+        } else if (settings.validate) {
             connection.sendDiagnostics({ uri: uri, diagnostics: [] });
         }
     });
 });
 
+function recycleLibraries() {
+    path2Library.forEach(library => library.recycle());
+}
+
 function environmentChanged() {
     document2Settings.clear();
+    recycleLibraries();
     for (let document of documents.all()) {
         messageQueue.addNotificationMessage(ValidateNotification.type, document, document.version);
     }
+    Array.from(workspaceResults).forEach(validateFile);
 }
 
 function trace(message: string, verbose?: string): void {
@@ -652,7 +865,9 @@ connection.onInitialize((_params) => {
                     includeText: false
                 }
             },
-            codeActionProvider: true,
+            codeActionProvider: {
+                codeActionKinds: [CodeActionKind.QuickFix, StylintCodeActionKind.SourceFixAll]
+            },
             executeCommandProvider: {
                 commands: [CommandIds.applySingleFix, CommandIds.applySameFixes, CommandIds.applyAllFixes, CommandIds.applyAutoFix]
             }
@@ -663,6 +878,9 @@ connection.onInitialize((_params) => {
 connection.onInitialized(() => {
     connection.client.register(DidChangeConfigurationNotification.type, undefined);
     connection.client.register(DidChangeWorkspaceFoldersNotification.type, undefined);
+    // A static capability would make the server a formatter for every document the client syncs.
+    connection.client.register(DocumentFormattingRequest.type, { documentSelector: [{ language: 'stylus' }] });
+    connection.client.register(DocumentRangeFormattingRequest.type, { documentSelector: [{ language: 'stylus' }] });
 })
 
 messageQueue.registerNotification(DidChangeConfigurationNotification.type, (_params) => {
@@ -686,36 +904,169 @@ function validateSingle(document: TextDocument, publishDiagnostics: boolean = tr
     if (!documents.get(document.uri)) {
         return Promise.resolve(undefined);
     }
-    return resolveSettings(document).then((settings) => {
+    return resolveSettings(document).then<void>((settings) => {
         if (!settings.validate) {
-            return;
+            return Promise.resolve(undefined);
+        }
+        if (isIgnored(document, settings)) {
+            codeActions.delete(document.uri);
+            connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+            return Promise.resolve(undefined);
         }
 
-        validate(document, settings, publishDiagnostics)
+        return validate(document, settings, publishDiagnostics)
             .then(() => {
                 connection.sendNotification(StatusNotification.type, { state: Status.ok });
 
             })
             .catch((reason) => {
-                let status = undefined;
-                for (let handler of singleErrorHandlers) {
-                    status = handler(reason, document, settings.library);
-                    if (status) {
-                        break;
-                    }
-                }
-                status = status || Status.error;
-                connection.sendNotification(StatusNotification.type, { state: status });
+                handleValidationError(reason, document, settings.library);
             });
     });
 }
 
+function handleValidationError(reason: any, document: TextDocument, library: StylintModule): void {
+    let status = undefined;
+    for (let handler of singleErrorHandlers) {
+        status = handler(reason, document, library);
+        if (status) {
+            break;
+        }
+    }
+    status = status || Status.error;
+    connection.sendNotification(StatusNotification.type, { state: status });
+}
+
 function validateMany(documents: TextDocument[]): void {
     documents.forEach(document => {
         messageQueue.addNotificationMessage(ValidateNotification.type, document, document.version);
     });
 }
 
+let stylintIgnore: StylintIgnore = new StylintIgnore();
+
+/**
+ * Checks the document against the nearest .stylintignore and the `stylint.exclude` setting.
+ * Documents which don't live on disk are never ignored.
+ */
+function isIgnored(document: TextDocument, settings: TextDocumentSettings): boolean {
+    let file = getFilePath(document);
+    return !!file && stylintIgnore.isIgnored(file, getWorkspaceFolderPath(settings), settings.exclude);
+}
+
+// The URIs of the closed files whose diagnostics got published by the workspace lint.
+let workspaceResults: Set<string> = new Set<string>();
+
+// Whether the workspace got linted. Changed files on disk are linted again while this is the case.
+let workspaceLintActive: boolean = false;
+
+/**
+ * Validates a file which isn't opened from its content on disk.
+ */
+function validateFile(uri: string): Thenable<void> {
+    // Open documents are validated from their editor content.
+    let file = getFilePath(uri);
+    if (documents.get(uri) || !file) {
+        return Promise.resolve(undefined);
+    }
+    let content: string;
+    try {
+        content = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+        clearWorkspaceResult(uri);
+        return Promise.resolve(undefined);
+    }
+    let document = TextDocument.create(uri, 'stylus', 0, content);
+    return resolveSettings(document).then<void>((settings) => {
+        // Only the settings of open documents are cached.
+        document2Settings.delete(uri);
+        if (!settings.validate || isIgnored(document, settings)) {
+            clearWorkspaceResult(uri);
+            return Promise.resolve(undefined);
+        }
+        workspaceResults.add(uri);
+        return validate(document, settings).then(undefined, (reason) => {
+            handleValidationError(reason, document, settings.library);
+        });
+    });
+}
+
+function clearWorkspaceResult(uri: string): void {
+    if (workspaceResults.delete(uri) && !documents.get(uri)) {
+        codeActions.delete(uri);
+        connection.sendDiagnostics({ uri, diagnostics: [] });
+    }
+}
+
+messageQueue.registerRequest(LintFilesRequest.type, async (params, token) => {
+    workspaceLintActive = true;
+    for (let uri of params.uris) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        await validateFile(uri);
+    }
+    return {};
+});
+
+/**
+ * Computes the fixes of a file. Open documents are fixed from their editor content, other files from their content on disk.
+ *
+ * @return The fixes or `undefined` if there is nothing to fix or the file is ignored.
+ */
+function computeFileFixes(uri: string, rules: string[] | undefined): Thenable<FileFixes | undefined> {
+    let document = documents.get(uri);
+    let version: number | null = document ? document.version : null;
+    if (!document) {
+        let file = getFilePath(uri);
+        if (!file) {
+            return Promise.resolve(undefined);
+        }
+        try {
+            document = TextDocument.create(uri, 'stylus', 0, fs.readFileSync(file, 'utf8'));
+        } catch (error) {
+            return Promise.resolve(undefined);
+        }
+    }
+    return resolveSettings(document).then<FileFixes | undefined>((settings) => {
+        if (version === null) {
+            // Only the settings of open documents are cached.
+            document2Settings.delete(uri);
+        }
+        if (!settings.validate || !settings.autoFix || isIgnored(document, settings)) {
+            return undefined;
+        }
+        return computeAllFixes(document, settings, rules).then((result) => {
+            if (!result || result.edits.length === 0) {
+                return undefined;
+            }
+            return { textDocument: { uri, version }, edits: result.edits, rules: result.rules };
+        }, (error) => {
+            connection.console.error(`Failed to compute the fixes: ${getMessage(error, document)}`);
+            return undefined;
+        });
+    });
+}
+
+messageQueue.registerRequest(FixFilesRequest.type, async (params, token) => {
+    let files: FileFixes[] = [];
+    for (let uri of params.uris) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        let fixes = await computeFileFixes(uri, params.rules);
+        if (fixes) {
+            files.push(fixes);
+        }
+    }
+    return { files };
+});
+
+messageQueue.registerNotification(ClearWorkspaceResultsNotification.type, () => {
+    workspaceLintActive = false;
+    Array.from(workspaceResults).forEach(clearWorkspaceResult);
+});
+
 function getMessage(err: any, document: TextDocument): string {
     let result: string = null;
     if (typeof err.message === 'string' || err.message instanceof String) {
@@ -730,53 +1081,216 @@ function getMessage(err: any, document: TextDocument): string {
     return result;
 }
 
-async function validate(document: TextDocument, settings: TextDocumentSettings, publishDiagnostics: boolean = true): Promise<void> {
-    let uri = document.uri;
+/**
+ * Resolves the directory stylint runs in. It is passed to each validation explicitly, so
+ * validations of documents from different workspace folders don't affect each other.
+ */
+function resolveWorkingDirectory(document: TextDocument, settings: TextDocumentSettings): ConfigValue {
+    let workspaceFolderPath = getWorkspaceFolderPath(settings);
+    if (!getFilePath(document)) {
+        // The document doesn't live on disk. Hence use the workspace folder's .stylintrc
+        // or the global one in the user's home directory.
+        return workspaceFolderPath ? { value: workspaceFolderPath, source: 'workspace folder' } : { value: os.homedir(), source: 'home directory' };
+    }
+    if (settings.workingDirectory) {
+        return { value: settings.workingDirectory.directory, source: 'stylint.workingDirectories' };
+    }
+    return workspaceFolderPath ? { value: workspaceFolderPath, source: 'workspace folder' } : { value: process.cwd(), source: 'server process' };
+}
+
+function getWorkingDirectory(document: TextDocument, settings: TextDocumentSettings): string {
+    return resolveWorkingDirectory(document, settings).value;
+}
+
+let stylintrcResolver: StylintrcResolver = new StylintrcResolver();
+
+/**
+ * An explicit `stylint.stylintrcPath` takes precedence. Otherwise the nearest configuration
+ * between the document and its workspace folder applies.
+ *
+ * @return The configuration or `undefined` to let stylint look it up in the working directory.
+ */
+function resolveStylintrc(document: TextDocument, settings: TextDocumentSettings, cwd: string): Stylintrc | undefined {
+    if (settings.stylintrcPath) {
+        let file = path.resolve(cwd, settings.stylintrcPath);
+        if (fs.existsSync(file)) {
+            return stylintrcResolver.load(file);
+        }
+    }
     let file = getFilePath(document);
-    let cwd = process.cwd();
+    let workspaceFolderPath = getWorkspaceFolderPath(settings);
+    if (file) {
+        return stylintrcResolver.resolve(path.dirname(file), workspaceFolderPath);
+    }
+    return workspaceFolderPath ? stylintrcResolver.resolve(workspaceFolderPath, workspaceFolderPath) : undefined;
+}
 
-    try {
-        if (file) {
-            if (settings.workingDirectory) {
-                if (settings.workingDirectory.changeProcessCWD) {
-                    process.chdir(settings.workingDirectory.directory);
-                }
-            } else if (settings.workspaceFolder) {
-                let workspaceFolderUri = URI.parse(settings.workspaceFolder.uri);
-                if (workspaceFolderUri.scheme === 'file') {
-                    const fsPath = getFileSystemPath(workspaceFolderUri);
-                    process.chdir(fsPath);
-                }
+function hasRules(settings: TextDocumentSettings): boolean {
+    return !!settings.rules && typeof settings.rules === 'object' && Object.keys(settings.rules).length > 0;
+}
+
+/**
+ * Merges the configurations the given one extends into it. Packages are resolved the way the stylint library is.
+ */
+async function flattenStylintrc(stylintrc: Stylintrc | undefined, settings: TextDocumentSettings): Promise<Stylintrc | undefined> {
+    if (!stylintrc) {
+        return undefined;
+    }
+    return stylintrcResolver.flatten(stylintrc, (moduleName, directory) => {
+        return Files.resolve(moduleName, settings.resolvedGlobalPackageManagerPath, directory, trace);
+    });
+}
+
+/**
+ * Resolves the flattened configuration stylint uses for the document. Without a configuration of the document
+ * the one of the working directory applies, as stylint doesn't know `extends` and can't be left to look it up.
+ */
+async function resolveConfig(document: TextDocument, settings: TextDocumentSettings, cwd: string): Promise<Stylintrc | undefined> {
+    return flattenStylintrc(resolveStylintrc(document, settings, cwd) || stylintrcResolver.resolve(cwd, undefined), settings);
+}
+
+/**
+ * Merges the rules of the `stylint.rules` setting on top of the configuration. Without a configuration they are
+ * merged on top of stylint's defaults.
+ *
+ * @param stylintrc The flattened configuration stylint uses.
+ * @return The configuration or `undefined` to let stylint fall back to its defaults.
+ */
+function getConfig(settings: TextDocumentSettings, stylintrc: Stylintrc | undefined): any {
+    if (!hasRules(settings)) {
+        return stylintrc ? stylintrc.config : undefined;
+    }
+    // A configuration replaces the defaults entirely, hence the rules can't be passed on their own.
+    return Object.assign({}, stylintrc ? stylintrc.config : settings.library.defaultConfig, settings.rules);
+}
+
+/**
+ * The directories of the configurations which extend a file, by the extended file.
+ */
+let extendedStylintrcs: Map<string, Set<string>> = new Map<string, Set<string>>();
+
+function isInNodeModules(file: string): boolean {
+    return file.split(/[\\/]/).indexOf('node_modules') !== -1;
+}
+
+/**
+ * Watches the files the configuration extends, since they may have any name. VS Code only reports changes of
+ * files inside of the workspace folders and skips node_modules, hence the files of npm packages aren't watched.
+ * They are read again when a package.json or a lock file changes instead.
+ */
+function watchExtendedFiles(stylintrc: Stylintrc): void {
+    let directory = path.dirname(stylintrc.file);
+    for (let file of stylintrc.extends || []) {
+        let directories = extendedStylintrcs.get(file);
+        if (!directories) {
+            directories = new Set<string>();
+            extendedStylintrcs.set(file, directories);
+            if (!isInNodeModules(file)) {
+                connection.client.register(DidChangeWatchedFilesNotification.type, { watchers: [{ globPattern: file.replace(/\\/g, '/') }] });
             }
         }
+        directories.add(directory);
+    }
+}
 
-        const cli = settings.library;
-        cli.jsonReporterPath = settings.stylintJsonReporterPath;
-        cli.stylintrcPath = settings.stylintrcPath;
-        codeActions.delete(uri);
-        let report: StylintDocumentReport[] = await cli.validate(file);
-        let diagnostics: Diagnostic[] = [];
-        if (Array.isArray(report) && report.length == 1) {
-            let docReport = report[0];
-            if (docReport.messages && Array.isArray(docReport.messages)) {
-                docReport.messages.forEach((problem) => {
-                    if (problem) {
-                        let diagnostic = makeDiagnostic(problem);
-                        diagnostics.push(diagnostic);
-                        if (settings.autoFix) {
-                            recordCodeAction(document, diagnostic, problem);
-                        }
+/**
+ * The files which change when packages get installed or updated.
+ */
+const packageFiles: string[] = ['package.json', 'package-lock.json', 'yarn.lock'];
+
+/**
+ * Lints the content of the document.
+ *
+ * @param computeFixes Whether to compute the fixes of the problems stylint doesn't fix itself.
+ * @return The problems or `undefined` if the validation got cancelled.
+ */
+async function lint(document: TextDocument, settings: TextDocumentSettings, computeFixes: boolean): Promise<StylintProblem[] | undefined> {
+    let cwd = getWorkingDirectory(document, settings);
+    const cli = settings.library;
+    let stylintrc = await resolveConfig(document, settings, cwd);
+    if (stylintrc) {
+        [stylintrc.file].concat(stylintrc.extends).forEach(file => checkStylintrcFile(file, cli));
+        watchExtendedFiles(stylintrc);
+    }
+    let report: StylintDocumentReport[] = await cli.validate(document.getText(), getFileName(document), document.uri, {
+        cwd: cwd,
+        config: getConfig(settings, stylintrc)
+    });
+    if (report === undefined) {
+        return undefined;
+    }
+    let problems: StylintProblem[] = [];
+    if (Array.isArray(report) && report.length == 1) {
+        let docReport = report[0];
+        if (docReport.messages && Array.isArray(docReport.messages)) {
+            docReport.messages.forEach((problem) => {
+                if (problem) {
+                    if (computeFixes && !problem.fix && problem.rule) {
+                        let expect = problem.rule === 'sortOrder' && problem.expect === 'grouped' ? cli.groupedOrdering : problem.expect;
+                        problem.fix = computeFix(document, problem.rule, Math.max(0, problem.line - 1), expect);
                     }
-                });
-            }
-        }
-        if (publishDiagnostics) {
-            connection.sendDiagnostics({ uri, diagnostics });
+                    problems.push(problem);
+                }
+            });
         }
-    } finally {
-        if (cwd !== process.cwd()) {
-            process.chdir(cwd);
+    }
+    return problems;
+}
+
+/**
+ * Lints the document again with its `@stylint` comments disabled to find the comments which suppress nothing.
+ *
+ * @return The problems of the comments or `undefined` if the validation got cancelled.
+ */
+async function lintToggles(document: TextDocument, settings: TextDocumentSettings): Promise<ToggleProblem[] | undefined> {
+    let text = document.getText();
+    if (text.indexOf('@stylint') === -1) {
+        return [];
+    }
+    let unsuppressed = TextDocument.create(document.uri, document.languageId, document.version, disableToggles(text));
+    let problems = await lint(unsuppressed, settings, false);
+    if (problems === undefined) {
+        return undefined;
+    }
+    return checkToggles(document, new Set<number>(problems.map(problem => Math.max(0, problem.line - 1))));
+}
+
+function makeToggleDiagnostic(problem: ToggleProblem): Diagnostic {
+    return {
+        message: `${problem.message} (${problem.code})`,
+        severity: DiagnosticSeverity.Warning,
+        source: 'stylint',
+        range: problem.range,
+        code: problem.code
+    };
+}
+
+async function validate(document: TextDocument, settings: TextDocumentSettings, publishDiagnostics: boolean = true): Promise<void> {
+    let uri = document.uri;
+    codeActions.delete(uri);
+    let version = document.version;
+    let problems = await lint(document, settings, settings.autoFix);
+    let current = documents.get(uri);
+    if (problems === undefined || (current && current.version !== version)) {
+        // The validation got cancelled or the document changed in the meantime.
+        return;
+    }
+    let diagnostics: Diagnostic[] = [];
+    problems.forEach((problem) => {
+        let diagnostic = makeDiagnostic(problem);
+        diagnostics.push(diagnostic);
+        if (settings.autoFix) {
+            recordCodeAction(document, diagnostic, problem);
         }
+    });
+    let toggleProblems = await lintToggles(document, settings);
+    current = documents.get(uri);
+    if (toggleProblems === undefined || (current && current.version !== version)) {
+        return;
+    }
+    toggleProblems.forEach(problem => diagnostics.push(makeToggleDiagnostic(problem)));
+    if (publishDiagnostics) {
+        connection.sendDiagnostics({ uri, diagnostics });
     }
 }
 
@@ -806,6 +1320,43 @@ function tryHandleNoConfig(error: any, document: TextDocument, library: StylintM
     return Status.warn;
 }
 
+/**
+ * The configuration files whose problems are published, by the library they were checked against.
+ */
+let checkedStylintrcs: Map<string, StylintModule> = new Map<string, StylintModule>();
+
+/**
+ * Publishes the problems of the configuration file as its diagnostics. A file is checked once per library until it changes.
+ *
+ * @param error The error stylint failed with because of the file. It is published if the check doesn't explain it.
+ */
+function checkStylintrcFile(file: string, library: StylintModule, error?: string): void {
+    if (!error && checkedStylintrcs.get(file) === library) {
+        return;
+    }
+    checkedStylintrcs.set(file, library);
+    let uri = URI.file(file).toString();
+    let diagnostics: Diagnostic[] = [];
+    try {
+        let document = TextDocument.create(uri, 'json', 0, fs.readFileSync(file, 'utf8'));
+        let properties = library.properties.concat(library.groupedOrdering || []);
+        checkStylintrc(document, { version: library.version, options: library.options, properties }).forEach((problem) => {
+            diagnostics.push({
+                message: problem.message,
+                severity: problem.fatal ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+                source: 'stylint',
+                range: problem.range
+            });
+        });
+    } catch (checkError) {
+        connection.console.error(`Failed to check the configuration ${file}: ${checkError.message}`);
+    }
+    if (error && !diagnostics.some(diagnostic => diagnostic.severity === DiagnosticSeverity.Error)) {
+        diagnostics.push({ message: error, severity: DiagnosticSeverity.Error, source: 'stylint', range: Range.create(0, 0, 0, 0) });
+    }
+    connection.sendDiagnostics({ uri, diagnostics });
+}
+
 let configErrorReported: Map<string, StylintModule> = new Map<string, StylintModule>();
 
 function tryHandleConfigError(error: any, document: TextDocument, library: StylintModule): Status {
@@ -816,11 +1367,10 @@ function tryHandleConfigError(error: any, document: TextDocument, library: Styli
     function handleFileName(filename: string): Status {
         if (!configErrorReported.has(filename)) {
             connection.console.error(getMessage(error, document));
-            if (!documents.get(URI.file(filename).toString())) {
-                connection.window.showInformationMessage(getMessage(error, document));
-            }
             configErrorReported.set(filename, library);
         }
+        // The problems are shown on the configuration file itself.
+        checkStylintrcFile(filename, library, getMessage(error, document));
         return Status.warn;
     }
 
@@ -892,30 +1442,74 @@ function showErrorMessage(error: any, document: TextDocument): Status {
     return Status.error;
 }
 
+function isInDirectory(file: string, directory: string): boolean {
+    let relativePath = path.relative(directory, file);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+function stylusFileChanged(change: FileEvent): void {
+    if (change.type === FileChangeType.Deleted) {
+        clearWorkspaceResult(change.uri);
+    } else if (workspaceLintActive) {
+        validateFile(change.uri);
+    }
+}
+
 messageQueue.registerNotification(DidChangeWatchedFilesNotification.type, (params) => {
-    // A .stylintrc has change. No smartness here.
-    // Simply revalidate all file.
-    noConfigReported = new Map<string, StylintModule>();;
-    missingModuleReported = new Map<string, StylintModule>();;
+    let configDirectories: string[] = [];
     params.changes.forEach((change) => {
         let fsPath = getFilePath(change.uri);
         if (!fsPath || isUNC(fsPath)) {
             return;
         }
-        let dirname = path.dirname(fsPath);
-        if (dirname) {
-            let library = configErrorReported.get(fsPath);
-            if (library) {
-                let cli = library
-                try {
-                    cli.validate(path.join(dirname, '*.styl'))
-                    configErrorReported.delete(fsPath);
-                } catch (error) {
-                }
+        if (path.extname(fsPath) === '.styl') {
+            stylusFileChanged(change);
+            return;
+        }
+        // The config file is read again by the next validation, which reports
+        // the error again if it still exists.
+        configErrorReported.delete(fsPath);
+        let checkedLibrary = checkedStylintrcs.get(fsPath);
+        if (checkedLibrary) {
+            checkedStylintrcs.delete(fsPath);
+            if (change.type === FileChangeType.Deleted) {
+                connection.sendDiagnostics({ uri: URI.file(fsPath).toString(), diagnostics: [] });
+            } else {
+                checkStylintrcFile(fsPath, checkedLibrary);
             }
         }
+        let extendingDirectories = extendedStylintrcs.get(fsPath);
+        if (extendingDirectories) {
+            extendingDirectories.forEach(directory => configDirectories.push(directory));
+        }
+        if (packageFiles.indexOf(path.basename(fsPath)) !== -1) {
+            // An installed package may provide a different configuration now, wherever it got installed to.
+            extendedStylintrcs.forEach((directories, file) => {
+                if (isInNodeModules(file)) {
+                    directories.forEach(directory => configDirectories.push(directory));
+                }
+            });
+        }
+        configDirectories.push(path.dirname(fsPath));
     });
-    validateMany(documents.all());
+    if (configDirectories.length === 0) {
+        return;
+    }
+
+    // A .stylintrc, .stylintignore, package.json, lock file or an extended configuration
+    // has changed. Revalidate the files of the affected directories only.
+    noConfigReported = new Map<string, StylintModule>();;
+    missingModuleReported = new Map<string, StylintModule>();;
+    // Stylint caches the package.json it read. Hence start with fresh workers.
+    recycleLibraries();
+    stylintIgnore.clear();
+    stylintrcResolver.clear();
+    // Documents which don't live on disk use the config of their workspace folder. Always revalidate them.
+    let isAffected = (file: string | undefined) => !file || configDirectories.some(directory => isInDirectory(file, directory));
+    validateMany(documents.all().filter(document => isAffected(getFilePath(document))));
+    Array.from(workspaceResults)
+        .filter(uri => isAffected(getFilePath(uri)))
+        .forEach(validateFile);
 });
 
 class Fixes {
@@ -987,7 +1581,190 @@ class Fixes {
 }
 
 let commands: Map<string, WorkspaceChange>;
+/**
+ * Checks whether the client asks for the fix all source action, either explicitly or by a parent kind like `source`.
+ */
+function isSourceFixAllRequested(only: CodeActionKind[] | undefined): boolean {
+    return !!only && only.some(kind => StylintCodeActionKind.SourceFixAll === kind || StylintCodeActionKind.SourceFixAll.startsWith(`${kind}.`));
+}
+
+function computeSourceFixAll(uri: string): Thenable<CodeAction[]> {
+    let textDocument = documents.get(uri);
+    if (!textDocument) {
+        return Promise.resolve([]);
+    }
+    return resolveSettings(textDocument).then<CodeAction[], CodeAction[]>((settings) => {
+        if (!settings.validate || !settings.autoFix) {
+            return [];
+        }
+        return computeAllFixes(textDocument, settings).then((result) => {
+            if (!result || result.edits.length === 0) {
+                return [];
+            }
+            let workspaceChange = new WorkspaceChange();
+            let textChange = workspaceChange.getTextEditChange({ uri, version: textDocument.version });
+            result.edits.forEach(edit => textChange.add(edit));
+            let title = 'Fix all auto-fixable problems';
+            return [CodeAction.create(title, workspaceChange.edit, StylintCodeActionKind.SourceFixAll)];
+        });
+    });
+}
+
+function createEditAction(title: string, textDocument: TextDocument, edits: TextEdit[], diagnostic: Diagnostic): CodeAction {
+    let workspaceChange = new WorkspaceChange();
+    let textChange = workspaceChange.getTextEditChange({ uri: textDocument.uri, version: textDocument.version });
+    edits.forEach(edit => textChange.add(edit));
+    let action = CodeAction.create(title, workspaceChange.edit, CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    return action;
+}
+
+/**
+ * Computes the actions which suppress the stylint problems by `@stylint` comments
+ * and the ones which remove unused or unmatched `@stylint` comments.
+ */
+function getSuppressActions(params: CodeActionParams): CodeAction[] {
+    let result: CodeAction[] = [];
+    let textDocument = documents.get(params.textDocument.uri);
+    if (!textDocument) {
+        return result;
+    }
+    let lines: Set<number> = new Set<number>();
+    let fileAction: CodeAction | undefined;
+    for (let diagnostic of params.context.diagnostics) {
+        let line = diagnostic.range.start.line;
+        if (diagnostic.source === 'stylint' && ToggleProblemCode.is(diagnostic.code)) {
+            result.push(createEditAction('Remove this @stylint comment', textDocument, removeToggle(textDocument, line), diagnostic));
+            continue;
+        }
+        // A comment suppresses all problems of a line, so offer the actions once per line.
+        if (diagnostic.source !== 'stylint' || lines.has(line)) {
+            continue;
+        }
+        lines.add(line);
+        result.push(createEditAction('Ignore stylint problems on this line', textDocument, ignoreLine(textDocument, line), diagnostic));
+        result.push(createEditAction('Disable stylint for this block', textDocument, disableBlock(textDocument, line), diagnostic));
+        if (!fileAction) {
+            fileAction = createEditAction('Disable stylint for the entire file', textDocument, disableFile(textDocument), diagnostic);
+        }
+    }
+    if (fileAction) {
+        result.push(fileAction);
+    }
+    return result;
+}
+
+/**
+ * Creates an action which sets a value in the configuration of the document. If there is no
+ * configuration a .stylintrc is created in the workspace folder. The client saves the file
+ * afterwards, so the file watcher validates the affected documents again.
+ */
+function createConfigAction(title: string, textDocument: TextDocument, settings: TextDocumentSettings, stylintrc: Stylintrc | undefined,
+    keys: string[], value: any, diagnostic: Diagnostic): CodeAction | undefined {
+    // Creating a file requires document changes.
+    let workspaceChange = new WorkspaceChange({ documentChanges: [] });
+    let file: string;
+    try {
+        if (stylintrc) {
+            file = stylintrc.file;
+            // The file may be open with unsaved changes. The edits have to match the editor's content then.
+            let document = documents.get(URI.file(file).toString());
+            let textChange = workspaceChange.getTextEditChange({ uri: URI.file(file).toString(), version: document ? document.version : null });
+            modifyStylintrc(stylintrc, keys, value, document ? document.getText() : undefined).forEach(edit => textChange.add(edit));
+        } else {
+            let filePath = getFilePath(textDocument);
+            let directory = getWorkspaceFolderPath(settings) || (filePath ? path.dirname(filePath) : undefined);
+            if (!directory || keys.length !== 1) {
+                return undefined;
+            }
+            // Stylint doesn't merge a configuration with its defaults. Hence the new file starts with them.
+            let config = settings.library.defaultConfig;
+            // The reporter is a path relative to the library and only matters for the command line.
+            delete config.reporter;
+            delete config.reporterOptions;
+            config[keys[0]] = value;
+            file = path.join(directory, '.stylintrc');
+            let uri = URI.file(file).toString();
+            workspaceChange.createFile(uri, { ignoreIfExists: true });
+            workspaceChange.getTextEditChange({ uri, version: null }).add(TextEdit.insert({ line: 0, character: 0 }, `${JSON.stringify(config, null, 4)}\n`));
+        }
+    } catch (error) {
+        connection.console.error(`Failed to compute the configuration change: ${getMessage(error, textDocument)}`);
+        return undefined;
+    }
+    let action = CodeAction.create(title, workspaceChange.edit, CodeActionKind.QuickFix);
+    action.command = Command.create(title, CommandIds.saveConfig, URI.file(file).toString());
+    action.diagnostics = [diagnostic];
+    return action;
+}
+
+/**
+ * Computes the actions which turn off or downgrade the rules of the stylint problems in the configuration of the document.
+ */
+async function getConfigActions(params: CodeActionParams, textDocument: TextDocument, settings: TextDocumentSettings): Promise<CodeAction[]> {
+    let result: CodeAction[] = [];
+    if (!settings.validate || !settings.library) {
+        return result;
+    }
+    let stylintrc: Stylintrc | undefined;
+    let flattened: Stylintrc | undefined;
+    try {
+        stylintrc = resolveStylintrc(textDocument, settings, getWorkingDirectory(textDocument, settings));
+        flattened = await flattenStylintrc(stylintrc, settings);
+    } catch (error) {
+        // An invalid configuration has to be fixed by hand.
+        return result;
+    }
+    let name = stylintrc ? path.basename(stylintrc.file) : '.stylintrc';
+    let rules: Set<string> = new Set<string>();
+    for (let diagnostic of params.context.diagnostics) {
+        let rule = diagnostic.code;
+        if (diagnostic.source !== 'stylint' || !Is.string(rule) || ToggleProblemCode.is(rule) || rules.has(rule)) {
+            continue;
+        }
+        rules.add(rule);
+        if (hasRules(settings) && rule in settings.rules) {
+            // The setting overrides the configuration file, changing the file has no effect.
+            continue;
+        }
+        let actions = [createConfigAction(`Turn off ${rule} in ${name}`, textDocument, settings, stylintrc, [rule], false, diagnostic)];
+        // Only rules configured as `{ "expect": ..., "error": true }` report errors.
+        if (stylintrc && diagnostic.severity === DiagnosticSeverity.Error) {
+            let title = `Downgrade ${rule} to a warning in ${name}`;
+            if (stylintrc.config && stylintrc.config[rule] && typeof stylintrc.config[rule] === 'object') {
+                actions.push(createConfigAction(title, textDocument, settings, stylintrc, [rule, 'error'], false, diagnostic));
+            } else {
+                // The rule is configured by an extended configuration. Override it as a whole.
+                actions.push(createConfigAction(title, textDocument, settings, stylintrc, [rule], Object.assign({}, flattened.config[rule], { error: false }), diagnostic));
+            }
+        }
+        actions.filter(action => action !== undefined).forEach(action => result.push(action));
+    }
+    return result;
+}
+
 messageQueue.registerRequest(CodeActionRequest.type, (params) => {
+    if (isSourceFixAllRequested(params.context.only)) {
+        return computeSourceFixAll(params.textDocument.uri);
+    }
+    let result = getFixActions(params).concat(getSuppressActions(params));
+    let textDocument = documents.get(params.textDocument.uri);
+    if (!textDocument) {
+        return result;
+    }
+    return resolveSettings(textDocument).then<CodeAction[], CodeAction[]>((settings) => {
+        return getConfigActions(params, textDocument, settings).then(actions => result.concat(actions));
+    }, () => result);
+}, (params): number => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? document.version : undefined;
+});
+
+function toTextEdit(textDocument: TextDocument, edit: StylintAutoFixEdit): TextEdit {
+    return TextEdit.replace(Range.create(textDocument.positionAt(edit.range[0]), textDocument.positionAt(edit.range[1])), edit.text || '');
+}
+
+function getFixActions(params: CodeActionParams): CodeAction[] {
     commands = new Map<string, WorkspaceChange>();
     let result: CodeAction[] = [];
     let uri = params.textDocument.uri;
@@ -1006,7 +1783,7 @@ messageQueue.registerRequest(CodeActionRequest.type, (params) => {
     let ruleId: string;
 
     function createTextEdit(editInfo: AutoFix): TextEdit {
-        return TextEdit.replace(Range.create(textDocument.positionAt(editInfo.edit.range[0]), textDocument.positionAt(editInfo.edit.range[1])), editInfo.edit.text || '');
+        return toTextEdit(textDocument, editInfo.edit);
     }
 
     function getLastEdit(array: AutoFix[]): AutoFix {
@@ -1059,77 +1836,185 @@ messageQueue.registerRequest(CodeActionRequest.type, (params) => {
             ));
         }
         if (all.length > 1) {
-            let allFixes: WorkspaceChange = new WorkspaceChange();
-            let allTextChange = allFixes.getTextEditChange({ uri, version: documentVersion });
-            all.map(createTextEdit).forEach(edit => allTextChange.add(edit));
-            commands.set(CommandIds.applyAllFixes, allFixes);
+            // The fixes are computed when the command runs, see computeAllFixes.
             let title = `Fix all auto-fixable problems`;
-            let command = Command.create(title, CommandIds.applyAllFixes);
+            let command = Command.create(title, CommandIds.applyAllFixes, { uri, version: documentVersion });
             result.push(CodeAction.create(
                 title,
                 command,
                 CodeActionKind.QuickFix
             ));
+            title = 'Preview fixes of all auto-fixable problems';
+            result.push(CodeAction.create(
+                title,
+                Command.create(title, CommandIds.previewFixes, uri),
+                CodeActionKind.QuickFix
+            ));
         }
     }
     return result;
-}, (params): number => {
-    let document = documents.get(params.textDocument.uri);
-    return document ? document.version : undefined;
-});
+}
 
-function computeAllFixes(identifier: VersionedTextDocumentIdentifier): TextEdit[] {
-    let uri = identifier.uri;
-    let textDocument = documents.get(uri);
-    if (!textDocument || identifier.version !== textDocument.version) {
-        return undefined;
-    }
-    let edits = codeActions.get(uri);
-    function createTextEdit(editInfo: AutoFix): TextEdit {
-        return TextEdit.replace(Range.create(textDocument.positionAt(editInfo.edit.range[0]), textDocument.positionAt(editInfo.edit.range[1])), editInfo.edit.text || '');
+function applyWorkspaceChange(command: string, workspaceChange: WorkspaceChange | undefined): Thenable<{}> {
+    if (!workspaceChange) {
+        return Promise.resolve({});
     }
-
-    if (edits) {
-        let fixes = new Fixes(edits);
-        if (!fixes.isEmpty()) {
-            return fixes.getOverlapFree().map(createTextEdit);
+    return connection.workspace.applyEdit(workspaceChange.edit).then((response) => {
+        if (!response.applied) {
+            connection.console.error(`Failed to apply command: ${command}`);
         }
-    }
-    return undefined;
-};
+        return {};
+    }, () => {
+        connection.console.error(`Failed to apply command: ${command}`);
+        return {};
+    });
+}
 
 messageQueue.registerRequest(ExecuteCommandRequest.type, (params) => {
-    let workspaceChange: WorkspaceChange;
-    if (params.command === CommandIds.applyAutoFix) {
+    if (params.command === CommandIds.applyAutoFix || params.command === CommandIds.applyAllFixes) {
         let identifier: VersionedTextDocumentIdentifier = params.arguments[0];
-        let edits = computeAllFixes(identifier);
-        if (edits) {
-            workspaceChange = new WorkspaceChange();
-            let textChange = workspaceChange.getTextEditChange(identifier);
-            edits.forEach(edit => textChange.add(edit));
+        let textDocument = documents.get(identifier.uri);
+        if (!textDocument || identifier.version !== textDocument.version) {
+            return {};
         }
+        return resolveSettings(textDocument)
+            .then<ComputeFixesResult | undefined>(settings => computeAllFixes(textDocument, settings))
+            .then((result) => {
+                if (!result || result.edits.length === 0) {
+                    return {};
+                }
+                // One edit, so a single undo reverts all fixes.
+                let workspaceChange = new WorkspaceChange();
+                let textChange = workspaceChange.getTextEditChange(identifier);
+                result.edits.forEach(edit => textChange.add(edit));
+                return applyWorkspaceChange(params.command, workspaceChange);
+            }, (error) => {
+                connection.console.error(`Failed to compute the fixes: ${getMessage(error, textDocument)}`);
+                return {};
+            });
+    }
+    return applyWorkspaceChange(params.command, commands.get(params.command));
+}, (params): number => {
+    if (params.command === CommandIds.applyAutoFix || params.command === CommandIds.applyAllFixes) {
+        let identifier: VersionedTextDocumentIdentifier = params.arguments[0];
+        return identifier.version;
     } else {
-        workspaceChange = commands.get(params.command);
+        return undefined;
     }
+});
 
-    if (!workspaceChange) {
-        return {};
+messageQueue.registerRequest(ComputeFixesRequest.type, (params) => {
+    let textDocument = documents.get(params.textDocument.uri);
+    if (!textDocument || params.textDocument.version !== textDocument.version) {
+        return null;
     }
-    return connection.workspace.applyEdit(workspaceChange.edit).then((response) => {
-        if (!response.applied) {
-            connection.console.error(`Failed to apply command: ${params.command}`);
+    return resolveSettings(textDocument).then<ComputeFixesResult | null>((settings) => {
+        if (!settings.validate || !settings.autoFix) {
+            return { edits: [], rules: {} };
         }
-        return {};
-    }, () => {
-        connection.console.error(`Failed to apply command: ${params.command}`);
+        return computeAllFixes(textDocument, settings, params.rules).then(result => result || null);
     });
 }, (params): number => {
-    if (params.command === CommandIds.applyAutoFix) {
-        let identifier: VersionedTextDocumentIdentifier = params.arguments[0];
-        return identifier.version;
+    let document = documents.get(params.textDocument.uri);
+    return document ? document.version : undefined;
+});
+
+/**
+ * Reindents the lines of the document to the configured indentPref. If indentPref isn't a number of spaces,
+ * the indentation options of the editor apply.
+ *
+ * @param range The lines to reindent. If omitted the whole document is reindented.
+ */
+function formatDocument(textDocument: TextDocument, options: FormattingOptions, range?: Range): Thenable<TextEdit[]> {
+    return resolveSettings(textDocument).then<TextEdit[]>(async (settings) => {
+        if (!settings.validate) {
+            return [];
+        }
+        let stylintrc: Stylintrc | undefined;
+        try {
+            stylintrc = await resolveConfig(textDocument, settings, getWorkingDirectory(textDocument, settings));
+        } catch (error) {
+            // An invalid configuration is reported by the validation.
+        }
+        let indentPref = stylintrc && stylintrc.config ? stylintrc.config.indentPref : undefined;
+        if (hasRules(settings) && settings.rules.indentPref !== undefined) {
+            indentPref = settings.rules.indentPref;
+        }
+        if (indentPref && typeof indentPref === 'object') {
+            indentPref = indentPref.expect;
+        }
+        let unit = typeof indentPref === 'number' && indentPref > 0
+            ? ' '.repeat(indentPref)
+            : options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+        let startLine = range ? range.start.line : 0;
+        // A selection of whole lines ends at the start of the next line.
+        let endLine = range ? (range.end.character === 0 && range.end.line > startLine ? range.end.line - 1 : range.end.line) : textDocument.lineCount - 1;
+        return computeIndentation(textDocument, unit, options.tabSize, startLine, endLine).map(edit => toTextEdit(textDocument, edit));
+    });
+}
+
+messageQueue.registerRequest(DocumentFormattingRequest.type, (params) => {
+    let textDocument = documents.get(params.textDocument.uri);
+    return textDocument ? formatDocument(textDocument, params.options) : [];
+}, (params): number => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? document.version : undefined;
+});
+
+messageQueue.registerRequest(DocumentRangeFormattingRequest.type, (params) => {
+    let textDocument = documents.get(params.textDocument.uri);
+    return textDocument ? formatDocument(textDocument, params.options, params.range) : [];
+}, (params): number => {
+    let document = documents.get(params.textDocument.uri);
+    return document ? document.version : undefined;
+});
+
+/**
+ * Resolves the configuration the validations of the document use. Without a configuration of the document
+ * the one of the working directory applies, else stylint's defaults.
+ */
+async function resolveEffectiveConfig(document: TextDocument, settings: TextDocumentSettings): Promise<EffectiveConfigResult> {
+    let library = settings.library;
+    let workingDirectory = resolveWorkingDirectory(document, settings);
+    let cwd: string = workingDirectory.value;
+    let configuration: ConfigValue;
+    let stylintrc = resolveStylintrc(document, settings, cwd);
+    if (stylintrc) {
+        let explicit = settings.stylintrcPath && stylintrc.file === path.resolve(cwd, settings.stylintrcPath);
+        configuration = { value: stylintrc.file, source: explicit ? 'stylint.stylintrcPath' : 'nearest configuration of the file' };
     } else {
-        return undefined;
+        stylintrc = stylintrcResolver.resolve(cwd, undefined);
+        configuration = stylintrc ? { value: stylintrc.file, source: 'working directory' } : { value: null, source: 'stylint defaults' };
+    }
+    stylintrc = await flattenStylintrc(stylintrc, settings);
+    let config = stylintrc ? stylintrc.config : library.defaultConfig;
+    let rules: { [name: string]: ConfigValue } = Object.create(null);
+    Object.keys(config).forEach((name) => {
+        rules[name] = { value: config[name], source: stylintrc ? stylintrc.sources[name] : 'stylint defaults' };
+    });
+    if (hasRules(settings)) {
+        Object.keys(settings.rules).forEach((name) => {
+            rules[name] = { value: settings.rules[name], source: 'stylint.rules' };
+        });
     }
+    if (!rules.indentPref) {
+        // Stylint sets indentPref no matter what.
+        rules.indentPref = { value: false, source: 'stylint defaults' };
+    }
+    return { library: library.libraryPath, version: library.version, workingDirectory, configuration, rules };
+}
+
+messageQueue.registerRequest(EffectiveConfigRequest.type, (params) => {
+    let textDocument = documents.get(params.textDocument.uri);
+    if (!textDocument) {
+        return null;
+    }
+    return resolveSettings(textDocument).then<EffectiveConfigResult | null>((settings) => {
+        if (!settings.validate || !settings.library) {
+            return null;
+        }
+        return resolveEffectiveConfig(textDocument, settings);
+    });
 });
 
 connection.tracer.
@@ -0,0 +1,99 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+// A long-lived process which keeps one stylint library loaded and lints
+// the content it receives from the server over IPC.
+
+import { ValidateRequest, ValidateResponse } from './stylintWorkerProtocol';
+
+interface StylintMessage {
+    severity: string;
+    message: string;
+    rule: string;
+    expect: any;
+    line: number;
+    column: number;
+}
+
+const libraryPath = process.argv[2];
+const stylint = require(libraryPath);
+
+// Stylint keeps its cache and state in module wide objects that are shared
+// by all instances. Hence remember their initial values to reset them before each run.
+const sharedMethods = stylint().fixed.methods;
+const initialCache = JSON.stringify(sharedMethods.cache);
+const initialState = JSON.stringify(sharedMethods.state);
+
+function lint(request: ValidateRequest): any {
+    process.chdir(request.cwd);
+    Object.assign(sharedMethods.cache, JSON.parse(initialCache));
+    Object.assign(sharedMethods.state, JSON.parse(initialState));
+
+    const config = request.config;
+    if (config) {
+        // The reporter is replaced below. Don't let stylint require the configured one.
+        delete config.reporter;
+    }
+    // Stub read() since the content is passed to parse() directly.
+    const app = stylint(request.fileName, config).create({ read: (): void => undefined }, {});
+
+    const messages: StylintMessage[] = [];
+    let done = false;
+    // Stylint's own done() exits the process. Hence the reporter never calls it.
+    app.reporter = function (message: string, state?: string): string {
+        if (done) {
+            return '';
+        }
+        if (state === 'done') {
+            done = true;
+            return '';
+        }
+        messages.push({
+            severity: this.state.severity,
+            message: message,
+            rule: this.cache.rule,
+            expect: this.state.conf,
+            line: this.cache.lineNo,
+            // Some checks, e.g. sortOrder, report no column. Point to the start of the line like stylint's reporter does.
+            column: typeof this.cache.col === 'number' && this.cache.col > 0 ? this.cache.col : 1
+        });
+        return message;
+    };
+    app.cache.file = request.fileName;
+    app.cache.files = [request.fileName];
+    app.cache.filesLen = 1;
+    app.cache.fileNo = 1;
+    app.parse(null, [request.content]);
+
+    return [{
+        filePath: request.fileName,
+        messages: messages,
+        errorCount: app.cache.errs.length,
+        warningCount: app.cache.warnings.length
+    }];
+}
+
+process.on('message', (request: ValidateRequest) => {
+    let response: ValidateResponse;
+    try {
+        response = { id: request.id, report: lint(request) };
+    } catch (error) {
+        response = {
+            id: request.id,
+            error: {
+                message: error && error.message ? error.message : String(error),
+                stack: error && error.stack
+            }
+        };
+    }
+    process.send(response);
+});
+
+// Don't outlive the server.
+process.on('disconnect', () => {
+    process.exit(0);
+});
@@ -0,0 +1,36 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+/**
+ * Sent from the server to a stylint worker to lint the given content.
+ */
+interface ValidateRequest {
+    id: number;
+    content: string;
+    fileName: string;
+    /**
+     * The stylint configuration. If omitted stylint looks it up in the working directory.
+     */
+    config: any | undefined;
+    cwd: string;
+}
+
+interface ValidateError {
+    message: string;
+    stack?: string;
+}
+
+/**
+ * Sent from a stylint worker back to the server. Either the report or the error is set.
+ */
+interface ValidateResponse {
+    id: number;
+    report?: any;
+    error?: ValidateError;
+}
+
+export { ValidateRequest, ValidateError, ValidateResponse };
@@ -0,0 +1,262 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+import fs = require('fs');
+import path = require('path');
+import { parse, parseTree, findNodeAtLocation, modify, Edit, FormattingOptions, ParseError, printParseErrorCode } from 'jsonc-parser';
+import { TextDocument, TextEdit, Range } from 'vscode-languageserver';
+
+/**
+ * A stylint configuration and the file it was read from.
+ */
+interface Stylintrc {
+    /**
+     * The path of the .stylintrc or of the package.json with a `stylintrc` key.
+     */
+    file: string;
+    config: any;
+    /**
+     * The files the configuration extends, directly or indirectly. Only set for flattened configurations.
+     */
+    extends?: string[];
+    /**
+     * The file each value comes from. Only set for flattened configurations.
+     */
+    sources?: { [key: string]: string };
+}
+
+/**
+ * Resolves an npm package a configuration extends to its main file.
+ *
+ * @param moduleName The name of the package.
+ * @param directory The directory of the configuration which extends the package.
+ */
+type ModuleResolver = (moduleName: string, directory: string) => Thenable<string>;
+
+function createConfigError(file: string, message: string): Error {
+    // The message format is the one stylint uses, so the error handlers recognize it.
+    return new Error(`Cannot read config file: ${file}\nError: ${message}`);
+}
+
+function parseJson(file: string, content: string): any {
+    let errors: ParseError[] = [];
+    let result = parse(content, errors, { allowTrailingComma: true });
+    if (errors.length > 0) {
+        throw createConfigError(file, `${printParseErrorCode(errors[0].error)} at offset ${errors[0].offset}`);
+    }
+    return result;
+}
+
+function readPackageJson(directory: string): any {
+    let file = path.join(directory, 'package.json');
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        return undefined;
+    }
+}
+
+class StylintrcResolver {
+    private _directory2Stylintrc: Map<string, Stylintrc | null> = new Map<string, Stylintrc | null>();
+    private _module2File: Map<string, Thenable<string>> = new Map<string, Thenable<string>>();
+
+    /**
+     * Finds the nearest configuration by walking up from the directory to the root directory.
+     * A directory provides a configuration if it contains a .stylintrc or a package.json with a `stylintrc` key.
+     *
+     * @param directory The directory of the linted file.
+     * @param root The directory the lookup stops at, usually the workspace folder.
+     * If omitted only the given directory is looked at.
+     * @return The configuration or `undefined` if none was found.
+     */
+    public resolve(directory: string, root: string | undefined): Stylintrc | undefined {
+        let relativePath = root ? path.relative(root, directory) : '..';
+        let stop = relativePath.startsWith('..') || path.isAbsolute(relativePath) ? directory : root;
+        let visited: string[] = [];
+        let result: Stylintrc | null | undefined;
+        while (true) {
+            result = this._directory2Stylintrc.get(directory);
+            if (result === undefined) {
+                visited.push(directory);
+                result = this.readDirectory(directory);
+            }
+            let parent = path.dirname(directory);
+            if (result || directory === stop || parent === directory) {
+                break;
+            }
+            directory = parent;
+        }
+        // Remember the result for every directory on the way, not only for the one that provided it.
+        visited.forEach(directory => this._directory2Stylintrc.set(directory, result || null));
+        return result || undefined;
+    }
+
+    /**
+     * Reads the given configuration file.
+     *
+     * @param file The absolute path of the file.
+     */
+    public load(file: string): Stylintrc {
+        return { file, config: parseJson(file, fs.readFileSync(file, 'utf8')) };
+    }
+
+    /**
+     * Forgets the cached configurations. Call it when a configuration file changed.
+     */
+    public clear(): void {
+        this._directory2Stylintrc.clear();
+        this._module2File.clear();
+    }
+
+    /**
+     * Merges the configurations the given one extends into it. The `extends` key holds a path relative to the
+     * configuration, the name of an npm package or an array of both. A configuration overrides the ones it
+     * extends and a later entry of the array overrides an earlier one.
+     *
+     * @param resolveModule Resolves the packages.
+     * @return The configuration without `extends` key together with the files it extends.
+     */
+    public async flatten(stylintrc: Stylintrc, resolveModule: ModuleResolver): Promise<Stylintrc> {
+        let files: string[] = [];
+        let result = await this.flattenConfig(stylintrc, resolveModule, [stylintrc.file], files);
+        return { file: stylintrc.file, config: result.config, extends: files, sources: result.sources };
+    }
+
+    /**
+     * @param chain The files from the flattened configuration down to the given one, to detect cycles.
+     * @param files Collects the extended files.
+     */
+    private async flattenConfig(stylintrc: Stylintrc, resolveModule: ModuleResolver, chain: string[], files: string[]): Promise<Stylintrc> {
+        let config = stylintrc.config;
+        let sources: { [key: string]: string } = Object.create(null);
+        if (!config || typeof config !== 'object') {
+            return { file: stylintrc.file, config, sources };
+        }
+        if (config.extends === undefined) {
+            Object.keys(config).forEach(key => sources[key] = stylintrc.file);
+            return { file: stylintrc.file, config, sources };
+        }
+        let result = Object.create(null);
+        for (let value of Array.isArray(config.extends) ? config.extends : [config.extends]) {
+            if (typeof value !== 'string' || value.length === 0) {
+                throw createConfigError(stylintrc.file, 'The values of "extends" must be paths or names of npm packages.');
+            }
+            let file = await this.resolveExtends(stylintrc.file, value, resolveModule);
+            if (chain.indexOf(file) !== -1) {
+                throw createConfigError(stylintrc.file, `"extends" forms a cycle: ${chain.concat(file).join(' -> ')}`);
+            }
+            if (files.indexOf(file) === -1) {
+                files.push(file);
+            }
+            let extended = await this.flattenConfig(this.load(file), resolveModule, chain.concat(file), files);
+            Object.assign(result, extended.config);
+            Object.assign(sources, extended.sources);
+        }
+        Object.assign(result, config);
+        Object.keys(config).forEach(key => sources[key] = stylintrc.file);
+        delete result.extends;
+        delete sources.extends;
+        return { file: stylintrc.file, config: result, sources };
+    }
+
+    private resolveExtends(file: string, value: string, resolveModule: ModuleResolver): Thenable<string> {
+        let directory = path.dirname(file);
+        if (value.startsWith('.') || path.isAbsolute(value)) {
+            let extendedFile = path.resolve(directory, value);
+            if (!fs.existsSync(extendedFile)) {
+                return Promise.reject(createConfigError(file, `The extended configuration ${extendedFile} doesn't exist.`));
+            }
+            return Promise.resolve(extendedFile);
+        }
+        let key = `${directory}${path.delimiter}${value}`;
+        let result = this._module2File.get(key);
+        if (!result) {
+            result = resolveModule(value, directory).then(undefined, () => {
+                this._module2File.delete(key);
+                throw createConfigError(file, `Failed to resolve the extended package "${value}".`);
+            });
+            this._module2File.set(key, result);
+        }
+        return result;
+    }
+
+    private readDirectory(directory: string): Stylintrc | null {
+        let stylintrcFile = path.join(directory, '.stylintrc');
+        if (fs.existsSync(stylintrcFile)) {
+            return this.load(stylintrcFile);
+        }
+        let pkg = readPackageJson(directory);
+        if (pkg && typeof pkg.stylintrc === 'object' && !Array.isArray(pkg.stylintrc)) {
+            return { file: path.join(directory, 'package.json'), config: pkg.stylintrc };
+        }
+        if (pkg && typeof pkg.stylintrc === 'string') {
+            return this.load(path.resolve(directory, pkg.stylintrc));
+        }
+        return null;
+    }
+}
+
+/**
+ * Guesses the formatting of a JSON file, so modifications look like the rest of the file.
+ */
+function getFormattingOptions(content: string): FormattingOptions {
+    let indentation = /^([ \t]+)\S/m.exec(content);
+    return {
+        insertSpaces: !indentation || indentation[1][0] !== '\t',
+        tabSize: indentation && indentation[1][0] !== '\t' ? indentation[1].length : 4,
+        eol: content.indexOf('\r\n') !== -1 ? '\r\n' : '\n'
+    };
+}
+
+/**
+ * Computes the edit which sets a value of an object written on a single line. The formatter of jsonc-parser
+ * would spread the whole object over several lines.
+ *
+ * @return The edit or `undefined` if the object spans several lines.
+ */
+function modifyInline(content: string, jsonPath: string[], value: any): Edit | undefined {
+    let root = parseTree(content);
+    let parent = root && findNodeAtLocation(root, jsonPath.slice(0, -1));
+    if (!parent || parent.type !== 'object' || !parent.children || /[\r\n]/.test(content.substr(parent.offset, parent.length))) {
+        return undefined;
+    }
+    // E.g. `{ "expect": "never", "error": false }`.
+    let text = JSON.stringify(value, null, 1).replace(/\n\s*/g, ' ');
+    let existing = findNodeAtLocation(parent, [jsonPath[jsonPath.length - 1]]);
+    if (existing) {
+        return { offset: existing.offset, length: existing.length, content: text };
+    }
+    let property = `${JSON.stringify(jsonPath[jsonPath.length - 1])}: ${text}`;
+    let last = parent.children[parent.children.length - 1];
+    return last
+        ? { offset: last.offset + last.length, length: 0, content: `, ${property}` }
+        : { offset: parent.offset + 1, length: 0, content: property };
+}
+
+/**
+ * Computes the edits which set a value of the configuration. The formatting and the comments of the file are kept.
+ *
+ * @param stylintrc The configuration to modify.
+ * @param keys The path to the value, e.g. the name of a rule.
+ * @param value The new value.
+ * @param content The content to modify, e.g. of the editor the file is open in. Defaults to the content on disk.
+ */
+function modifyStylintrc(stylintrc: Stylintrc, keys: string[], value: any, content: string = fs.readFileSync(stylintrc.file, 'utf8')): TextEdit[] {
+    // The configuration of a package.json lives in its `stylintrc` key.
+    let jsonPath = path.basename(stylintrc.file) === 'package.json' ? ['stylintrc', ...keys] : keys;
+    let document = TextDocument.create(stylintrc.file, 'json', 0, content);
+    let inline = value !== undefined ? modifyInline(content, jsonPath, value) : undefined;
+    let edits = inline ? [inline] : modify(content, jsonPath, value, { formattingOptions: getFormattingOptions(content) });
+    return edits.map((edit) => {
+        return TextEdit.replace(Range.create(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length)), edit.content);
+    });
+}
+
+export { Stylintrc, ModuleResolver, StylintrcResolver, modifyStylintrc };
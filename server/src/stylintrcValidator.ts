@@ -0,0 +1,126 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+import path = require('path');
+import { parseTree, findNodeAtLocation, Node, ParseError, printParseErrorCode } from 'jsonc-parser';
+import { TextDocument, Range } from 'vscode-languageserver';
+import { URI } from 'vscode-uri';
+
+/**
+ * What the resolved stylint library knows about its configuration.
+ */
+interface StylintrcSchema {
+    version: string | undefined;
+    /**
+     * The rules and the other options.
+     */
+    options: string[];
+    /**
+     * The properties the sortOrder rule may list.
+     */
+    properties: string[];
+}
+
+interface StylintrcProblem {
+    message: string;
+    range: Range;
+    /**
+     * Whether stylint fails to read the configuration. Otherwise it ignores the problem.
+     */
+    fatal: boolean;
+}
+
+function getDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_value, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        let current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Finds the option which the user most likely meant, e.g. `semicolons` for `semicolon`.
+ */
+function findSimilar(name: string, options: string[]): string | undefined {
+    let result: string | undefined;
+    let best = Math.min(3, Math.floor(name.length / 3) + 1);
+    for (let option of options) {
+        let distance = option.toLowerCase() === name.toLowerCase() ? 0 : getDistance(name, option);
+        if (distance < best) {
+            best = distance;
+            result = option;
+        }
+    }
+    return result;
+}
+
+function createRange(document: TextDocument, node: Node): Range {
+    return Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+}
+
+/**
+ * Checks the configuration against the resolved stylint library: its syntax, rules and options the
+ * library doesn't know, e.g. because they got removed, and unknown properties of a sortOrder array.
+ *
+ * @param document The .stylintrc or the package.json with a `stylintrc` key.
+ */
+function checkStylintrc(document: TextDocument, schema: StylintrcSchema): StylintrcProblem[] {
+    let result: StylintrcProblem[] = [];
+    let errors: ParseError[] = [];
+    let root = parseTree(document.getText(), errors, { allowTrailingComma: true });
+    errors.forEach((error) => {
+        result.push({
+            message: `Stylint can't read the configuration: ${printParseErrorCode(error.error)}.`,
+            range: Range.create(document.positionAt(error.offset), document.positionAt(error.offset + error.length)),
+            fatal: true
+        });
+    });
+    let isPackageJson = path.basename(URI.parse(document.uri).fsPath) === 'package.json';
+    let config = root && (isPackageJson ? findNodeAtLocation(root, ['stylintrc']) : root);
+    if (!config || config.type !== 'object' || !config.children) {
+        return result;
+    }
+
+    let stylint = schema.version ? `Stylint ${schema.version}` : 'Stylint';
+    for (let property of config.children) {
+        let key = property.children && property.children[0];
+        let value = property.children && property.children[1];
+        if (!key || typeof key.value !== 'string') {
+            continue;
+        }
+        let name: string = key.value;
+        if (name === 'extends') {
+            // The extension resolves it, stylint never sees it.
+            continue;
+        }
+        if (schema.options.indexOf(name) === -1) {
+            let similar = findSimilar(name, schema.options);
+            let hint = similar ? ` Did you mean "${similar}"?` : '';
+            result.push({ message: `${stylint} doesn't know the rule or option "${name}", it is ignored.${hint}`, range: createRange(document, key), fatal: false });
+            continue;
+        }
+        if (name !== 'sortOrder' || !value) {
+            continue;
+        }
+        let ordering = value.type === 'object' ? findNodeAtLocation(value, ['expect']) : value;
+        if (!ordering || ordering.type !== 'array' || !ordering.children) {
+            continue;
+        }
+        for (let item of ordering.children) {
+            if (item.type === 'string' && schema.properties.indexOf(item.value) === -1) {
+                result.push({ message: `${stylint} doesn't know the property "${item.value}".`, range: createRange(document, item), fatal: false });
+            }
+        }
+    }
+    return result;
+}
+
+export { StylintrcSchema, StylintrcProblem, checkStylintrc };
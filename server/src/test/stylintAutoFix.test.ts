@@ -0,0 +1,86 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Leo Hanisch. All rights reserved.
+ * Licensed under the MIT License. See LICENSE.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+'use strict';
+
+import assert = require('assert');
+import { TextDocument } from 'vscode-languageserver';
+import { computeFix } from '../stylintAutoFix';
+
+interface Fixture {
+    rule: string;
+    expect: any;
+    /**
+     * The lines of the document.
+     */
+    input: string[];
+    /**
+     * The zero based line the problem is reported for. Defaults to the first line.
+     */
+    line?: number;
+    /**
+     * The fixed lines or `undefined` if the problem must not be fixed.
+     */
+    output: string[] | undefined;
+}
+
+const fixtures: Fixture[] = [
+    { rule: 'semicolons', expect: 'never', input: ['  background url(data:image/png;base64,AAA);'], output: ['  background url(data:image/png;base64,AAA)'] },
+    { rule: 'brackets', expect: 'never', input: ['.a {', '  color red', '}'], output: ['.a', '  color red'] },
+    { rule: 'brackets', expect: 'never', input: ['.a {', '  color red', '}'], line: 2, output: ['.a', '  color red'] },
+    {
+        rule: 'brackets', expect: 'never', input: ['@media screen {', '  .a {', '    color: red;', '  }', '}'], line: 4,
+        output: ['@media screen', '  .a {', '    color: red;', '  }']
+    },
+    { rule: 'brackets', expect: 'never', input: ['.a { color red }'], output: undefined },
+    { rule: 'brackets', expect: 'never', input: ['.a {', '  color red }'], output: undefined },
+    { rule: 'brackets', expect: 'never', input: ['.a', '  content "{"', '}'], line: 2, output: undefined },
+    { rule: 'colons', expect: 'always', input: ['  color red'], output: ['  color: red'] },
+    { rule: 'colons', expect: 'always', input: ['  transition: opacity 1s,', '    color 1s'], line: 1, output: undefined },
+    { rule: 'colons', expect: 'always', input: ['  transition: opacity 1s, // fade', '', '    color 1s'], line: 2, output: undefined },
+    { rule: 'colons', expect: 'never', input: ['  color: red'], output: ['  color red'] },
+    { rule: 'commaSpace', expect: 'always', input: ['  margin 0,1px'], output: ['  margin 0, 1px'] },
+    { rule: 'commaSpace', expect: 'always', input: ['  background url(data:image/png;base64,xx)'], output: undefined },
+    { rule: 'commaSpace', expect: 'always', input: ['  background url(a,b.png) rgba(0,0,0,.5)'], output: ['  background url(a,b.png) rgba(0, 0, 0, .5)'] },
+    { rule: 'commaSpace', expect: 'never', input: ['  font-family "a, b", c, d'], output: ['  font-family "a, b",c,d'] },
+    { rule: 'parenSpace', expect: 'always', input: ['  width calc(100% - 1px)'], output: ['  width calc( 100% - 1px )'] },
+    { rule: 'parenSpace', expect: 'never', input: ['  background url( a.png ) rgba( 0, 0, 0, 1 )'], output: ['  background url( a.png ) rgba(0, 0, 0, 1)'] },
+    { rule: 'leadingZero', expect: 'never', input: ['  opacity 0.5'], output: ['  opacity .5'] },
+    { rule: 'leadingZero', expect: 'never', input: ['  background url(img/0.5x.png)'], output: undefined },
+    { rule: 'leadingZero', expect: 'always', input: ['  opacity .5 // not .5'], output: ['  opacity 0.5 // not .5'] },
+    { rule: 'zeroUnits', expect: 'never', input: ['  margin 0px 0em'], output: ['  margin 0 0'] },
+    { rule: 'zeroUnits', expect: 'never', input: ['  width calc(100% - 0px)'], output: undefined },
+    { rule: 'zeroUnits', expect: 'never', input: ['  background url(0px.png) 0px'], output: ['  background url(0px.png) 0'] },
+    { rule: 'none', expect: 'always', input: ['  border 0'], output: ['  border none'] },
+    { rule: 'none', expect: 'never', input: ['  outline none'], output: ['  outline 0'] },
+    { rule: 'none', expect: 'always', input: ['  background url(border 0.png)'], output: undefined },
+    { rule: 'quotePref', expect: 'single', input: ['  content "a"'], output: ['  content \'a\''] },
+    { rule: 'quotePref', expect: 'single', input: ['  background url("a.png")'], output: ['  background url(\'a.png\')'] },
+    { rule: 'quotePref', expect: 'double', input: ['  background url(a\'b.png)'], output: undefined }
+];
+
+function applyFix(fixture: Fixture): string[] | undefined {
+    let document = TextDocument.create('file:///test.styl', 'stylus', 0, fixture.input.join('\n'));
+    let fix = computeFix(document, fixture.rule, fixture.line || 0, fixture.expect);
+    if (!fix) {
+        return undefined;
+    }
+    let text = document.getText();
+    return (text.slice(0, fix.range[0]) + fix.text + text.slice(fix.range[1])).split('\n');
+}
+
+let failures = 0;
+fixtures.forEach((fixture) => {
+    let title = `${fixture.rule} (${JSON.stringify(fixture.expect)}): ${JSON.stringify(fixture.input)}`;
+    try {
+        assert.deepStrictEqual(applyFix(fixture), fixture.output);
+        console.log(`ok ${title}`);
+    } catch (error) {
+        failures++;
+        console.error(`not ok ${title}\n${error.message}`);
+    }
+});
+console.log(`${fixtures.length - failures} of ${fixtures.length} fixtures passed.`);
+process.exitCode = failures > 0 ? 1 : 0;